@@ -0,0 +1,69 @@
+// File: /src/cli/gknDiff.ts
+
+/**
+ * One difference between two GKNs, at a dotted path such as
+ * `world.npcs.archivist.disposition`. `before` is missing for additions and `after`
+ * for removals. Arrays are compared whole, since their entries have no stable keys.
+ */
+export interface GknChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function walk(before: unknown, after: unknown, path: string, changes: GknChange[]): void {
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        changes.push({ path: childPath, before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, after: after[key] });
+      } else {
+        walk(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/** Everything that differs between two GKNs (or any two JSON values), in path order. */
+export function diffGkn(before: unknown, after: unknown): GknChange[] {
+  const changes: GknChange[] = [];
+  walk(before, after, "", changes);
+  return changes;
+}
+
+// Whole NPCs or locations added in one turn would otherwise flood the terminal.
+const MAX_VALUE_LENGTH = 160;
+
+const show = (value: unknown) => {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+/** One line per change: `+` added, `-` removed, `~` changed. */
+export function formatGknDiff(changes: GknChange[]): string {
+  if (changes.length === 0) {
+    return "(no changes)";
+  }
+  return changes.map((change) => {
+    if (!("before" in change)) {
+      return `+ ${change.path}: ${show(change.after)}`;
+    }
+    if (!("after" in change)) {
+      return `- ${change.path}: ${show(change.before)}`;
+    }
+    return `~ ${change.path}: ${show(change.before)} → ${show(change.after)}`;
+  }).join("\n");
+}
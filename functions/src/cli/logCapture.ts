@@ -0,0 +1,49 @@
+// File: /src/cli/logCapture.ts
+
+/** A structured line from firebase-functions/logger, as it was written. */
+export interface LogEntry {
+  severity: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+export interface LogCapture {
+  entries: LogEntry[];
+  /** Whether captured lines are still written to the terminal as well. */
+  echo: boolean;
+}
+
+// The logger writes one JSON object per line; anything else is the REPL's own output.
+function parseLogLine(text: string): LogEntry | undefined {
+  if (!text.startsWith("{\"")) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed.severity === "string" ? parsed as LogEntry : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Takes the game's log lines off the terminal so they do not bury the story, and keeps
+ * them for the REPL's `:logs` view. The logger holds on to the console it found at load
+ * time, so this has to intercept the streams themselves.
+ */
+export function captureLogs(echo = false): LogCapture {
+  const capture: LogCapture = { entries: [], echo };
+
+  for (const stream of [process.stdout, process.stderr]) {
+    const write = stream.write.bind(stream) as (chunk: unknown, ...rest: unknown[]) => boolean;
+    stream.write = ((chunk: unknown, ...rest: unknown[]) => {
+      const entry = typeof chunk === "string" ? parseLogLine(chunk.trim()) : undefined;
+      if (!entry) {
+        return write(chunk, ...rest);
+      }
+      capture.entries.push(entry);
+      return capture.echo ? write(chunk, ...rest) : true;
+    }) as typeof stream.write;
+  }
+  return capture;
+}
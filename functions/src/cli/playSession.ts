@@ -0,0 +1,207 @@
+// File: /src/cli/playSession.ts
+
+import { HttpsError } from "firebase-functions/v2/https";
+import { GameState, StoryGenre } from "../types/gameState";
+import { TurnRecord, TurnResult } from "../types/turnRecord";
+import { StoryBundle } from "../types/storyBundle";
+import { createStoryFromScenarioLogic, generateStoryLogic, processPlayerTurnLogic } from "../index";
+import { getLlmProvider } from "../llm";
+import { meterUsage, totalUsage } from "../llm/usageMeter";
+import { choosePromptSet, DEFAULT_PROMPT_SET, loadPrompts } from "../prompts/promptRegistry";
+import { generateStoryWorld, runTurn } from "../engine/gameLoop";
+import { Exchange, historyFromTurns } from "../context/storyMemory";
+import { parseOocCommand } from "../ooc/oocCommands";
+import { parseScenarioText, prepareScenario } from "../scenarios/scenarioLoader";
+import { AuthContext, loadSessionForUser } from "../sessions/sessionAccess";
+import { sessionStatusFor } from "../sessions/sessionStatus";
+import { buildStoryBundle, exportSessionLogic, importSessionLogic, turnRecordFromBundle, validateStoryBundle } from "../sessions/storyBundle";
+import { getTranscriptLogic, turnRef } from "../sessions/turnHistory";
+
+// A session the local REPL (src/play.ts) plays, kept either in Firestore (the emulator,
+// through the same logic functions the callables use) or in memory (through the game
+// loop directly, like the eval harness). Both give the REPL the same view of it.
+
+type Gkn = GameState["gkn"];
+
+export type StoreKind = "emulator" | "memory";
+
+/** How to start a session: a seed and genre, a scenario file's text, or an exported bundle's text. */
+export interface SessionSource {
+  seed?: string;
+  genre?: StoryGenre;
+  playerName?: string;
+  scenarioText?: string;
+  fillGaps?: boolean;
+  bundleText?: string;
+}
+
+export interface PlaySession {
+  readonly store: StoreKind;
+  readonly sessionId: string;
+  readonly initialHook: string;
+  gkn(): Promise<Gkn>;
+  /** Plays one input, an action or (emulator only) an out-of-character command. */
+  play(playerInput: string, onNarrative?: (text: string) => void): Promise<TurnResult>;
+  /** The stored record of a turn, or undefined if there is none. */
+  turn(turnNumber: number): Promise<TurnRecord | undefined>;
+  transcript(): Promise<Exchange[]>;
+  bundle(): Promise<StoryBundle>;
+}
+
+// ==========================================================================================
+// EMULATOR
+// ==========================================================================================
+/** Opens an existing session in Firestore as `auth`, who must be allowed to play it. */
+export async function resumeFirestoreSession(sessionId: string, auth: AuthContext): Promise<PlaySession> {
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+
+  return {
+    store: "emulator",
+    sessionId,
+    initialHook: gameSession.initialHook,
+    gkn: async () => ((await sessionRef.get()).data() as GameState).gkn,
+    play: (playerInput, onNarrative) => processPlayerTurnLogic({ sessionId, playerInput }, auth, onNarrative),
+    turn: async (turnNumber) => (await turnRef(sessionRef, turnNumber).get()).data() as TurnRecord | undefined,
+    transcript: async () => (await getTranscriptLogic({ sessionId }, auth)).turns,
+    bundle: async () => JSON.parse((await exportSessionLogic({ sessionId, format: "bundle" }, auth)).content) as StoryBundle,
+  };
+}
+
+/** Creates a session in Firestore, owned by `auth`, and opens it. */
+export async function startFirestoreSession(source: SessionSource, auth: AuthContext): Promise<PlaySession> {
+  let sessionId: string;
+  if (source.bundleText !== undefined) {
+    ({ sessionId } = await importSessionLogic({ bundle: source.bundleText }, auth));
+  } else if (source.scenarioText !== undefined) {
+    ({ sessionId } = await createStoryFromScenarioLogic({ scenario: source.scenarioText, playerName: source.playerName, fillGaps: source.fillGaps }, auth));
+  } else {
+    ({ sessionId } = await generateStoryLogic({ seed: source.seed ?? "", genre: source.genre as StoryGenre, playerName: source.playerName }, auth));
+  }
+  return resumeFirestoreSession(sessionId, auth);
+}
+
+// ==========================================================================================
+// MEMORY
+// ==========================================================================================
+/**
+ * Creates a session that lives only in this process. Nothing touches Firestore, so it
+ * needs PROMPT_REGISTRY=builtin. Out-of-character commands are not available, since they
+ * act on stored sessions; the REPL's own commands cover the debugging ones.
+ */
+export async function startMemorySession(source: SessionSource, promptSet?: string): Promise<PlaySession> {
+  let gameSession: GameState;
+  let turns: TurnRecord[];
+
+  if (source.bundleText !== undefined) {
+    const bundle = validateStoryBundle(JSON.parse(source.bundleText));
+    gameSession = {
+      sessionId: `memory-${Date.now()}`,
+      userId: "local-cli",
+      initialHook: bundle.initialHook,
+      scenario: bundle.scenario,
+      createdWithPromptSet: bundle.createdWithPromptSet,
+      promptSet: promptSet ?? bundle.promptSet,
+      branchName: bundle.branchName,
+      worldClock: bundle.worldClock,
+      pendingWorldEvents: bundle.pendingWorldEvents,
+      gkn: bundle.gkn,
+      ...sessionStatusFor(bundle.gkn),
+      lastModified: new Date(),
+    };
+    turns = bundle.turns.map(turnRecordFromBundle);
+  } else {
+    const prompts = await loadPrompts(promptSet ?? choosePromptSet());
+    const { provider, calls } = meterUsage(getLlmProvider());
+    const startedAt = Date.now();
+    let gkn: Gkn;
+    let initialHook: string;
+    if (source.scenarioText !== undefined) {
+      ({ gkn, initialHook } = await prepareScenario(parseScenarioText(source.scenarioText), { fillGaps: source.fillGaps, playerName: source.playerName, provider, prompts }));
+    } else {
+      if (!source.seed || !source.genre) {
+        throw new Error("A new story needs a seed and a genre, a scenario or a bundle.");
+      }
+      ({ gkn, initialHook } = await generateStoryWorld(source.seed, source.genre, source.playerName || "Kaelen", { provider, prompts }));
+    }
+    gameSession = {
+      sessionId: `memory-${Date.now()}`,
+      userId: "local-cli",
+      initialHook,
+      createdWithPromptSet: prompts.setId,
+      promptSet: prompts.setId,
+      status: "active",
+      gkn,
+      lastModified: new Date(),
+    };
+    turns = [{
+      turnNumber: 0,
+      playerInput: "",
+      narrative: initialHook,
+      operations: [],
+      gknAfter: gkn,
+      model: { provider: provider.name, name: provider.model },
+      promptSet: prompts.setId,
+      latencyMs: Date.now() - startedAt,
+      llmCalls: calls,
+      usage: totalUsage(calls),
+      createdAt: new Date(),
+    }];
+  }
+
+  const play = async (playerInput: string, onNarrative?: (text: string) => void): Promise<TurnResult> => {
+    if (parseOocCommand(playerInput)) {
+      throw new HttpsError("failed-precondition", "Out-of-character commands need a stored session; use the emulator store, or the REPL's own commands.");
+    }
+    if (gameSession.ending) {
+      throw new HttpsError("failed-precondition", "This story is over.", { ending: gameSession.ending });
+    }
+    const prompts = await loadPrompts(gameSession.promptSet ?? DEFAULT_PROMPT_SET);
+    const { provider, calls } = meterUsage(getLlmProvider());
+    const startedAt = Date.now();
+    const outcome = await runTurn(
+      { gkn: gameSession.gkn, worldClock: gameSession.worldClock, pendingWorldEvents: gameSession.pendingWorldEvents, history: historyFromTurns(turns) },
+      playerInput,
+      { provider, prompts, onNarrative },
+    );
+    turns.push({
+      turnNumber: outcome.turnNumber,
+      playerInput,
+      narrative: outcome.narrative,
+      operations: outcome.operations,
+      worldEvents: outcome.worldEvents,
+      gknAfter: outcome.gknAfter,
+      memory: outcome.memory,
+      worldClock: outcome.worldClock ?? gameSession.worldClock,
+      model: { provider: provider.name, name: provider.model },
+      promptSet: prompts.setId,
+      latencyMs: Date.now() - startedAt,
+      llmCalls: calls,
+      usage: totalUsage(calls),
+      createdAt: new Date(),
+    });
+    gameSession = {
+      ...gameSession,
+      gkn: outcome.gknAfter,
+      ...sessionStatusFor(outcome.gknAfter),
+      worldClock: outcome.worldClock ?? gameSession.worldClock,
+      pendingWorldEvents: [],
+      lastModified: new Date(),
+    };
+    return {
+      narrative: outcome.narrative,
+      turnNumber: outcome.turnNumber,
+      ...(gameSession.ending ? { ending: gameSession.ending } : {}),
+    };
+  };
+
+  return {
+    store: "memory",
+    sessionId: gameSession.sessionId,
+    initialHook: gameSession.initialHook,
+    gkn: async () => gameSession.gkn,
+    play,
+    turn: async (turnNumber) => turns[turnNumber],
+    transcript: async () => turns.map(({ turnNumber, playerInput, narrative, actor }) => ({ turnNumber, playerInput, narrative, actor })),
+    bundle: async () => buildStoryBundle(gameSession, turns),
+  };
+}
@@ -0,0 +1,118 @@
+// File: /src/context/contextBuilder.ts
+
+import { GameState } from "../types/gameState";
+import { WorldEvent } from "../types/worldEvent";
+import { ResolvedAction } from "../engine/actionResolver";
+import { Prompts } from "../prompts/promptRegistry";
+import { buildWorldSlice, compactWorldSlice } from "./worldSlice";
+import { formatExchange, StoryHistory } from "./storyMemory";
+
+/**
+ * GM context settings, read from the environment:
+ * - GM_RECENT_EXCHANGES: how many of the latest turns the GM always sees word for word (default 4).
+ * - GM_SUMMARY_BATCH: fold older turns into the summary once this many have piled up (default 4; 0 never summarises).
+ * - GM_CONTEXT_TOKEN_BUDGET: estimated tokens allowed for the scene, summary and recent turns (default 6000).
+ *   The fixed instructions around them are not counted.
+ */
+export interface ContextConfig {
+  recentExchanges: number;
+  summaryBatch: number;
+  tokenBudget: number;
+}
+
+export function getContextConfig(): ContextConfig {
+  const read = (name: string, fallback: number) => {
+    const raw = process.env[name];
+    const value = raw ? Number(raw) : NaN;
+    return Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    recentExchanges: read("GM_RECENT_EXCHANGES", 4),
+    summaryBatch: read("GM_SUMMARY_BATCH", 4),
+    tokenBudget: read("GM_CONTEXT_TOKEN_BUDGET", 6000),
+  };
+}
+
+/** The rendered, budgeted pieces of a GM prompt. */
+export interface GameMasterContext {
+  scene: string;
+  storySoFar: string;
+  recentExchanges: string;
+  estimatedTokens: number;
+  /** What had to give to fit the budget, for the logs. */
+  trimmed: string[];
+}
+
+/**
+ * A rough count that errs on the high side for English prose and JSON. Good enough to
+ * keep prompts from growing without bound; it is not a billing figure.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Assembles the scene, summary and recent turns within `tokenBudget`. When over budget,
+ * the oldest verbatim turns go first (the latest always stays), then the scene is
+ * compacted, and finally the summary is cut from its oldest end.
+ */
+export function buildGameMasterContext(gkn: GameState["gkn"], history: StoryHistory, tokenBudget: number): GameMasterContext {
+  const slice = buildWorldSlice(gkn);
+  let scene = JSON.stringify(slice, null, 2);
+  let storySoFar = history.memory.summary;
+  let exchanges = history.exchanges.map(formatExchange);
+  const trimmed: string[] = [];
+
+  const total = () => estimateTokens(scene) + estimateTokens(storySoFar) + estimateTokens(exchanges.join("\n\n"));
+
+  if (total() > tokenBudget && exchanges.length > 1) {
+    const before = exchanges.length;
+    while (total() > tokenBudget && exchanges.length > 1) {
+      exchanges = exchanges.slice(1);
+    }
+    trimmed.push(`dropped ${before - exchanges.length} older exchanges`);
+  }
+  if (total() > tokenBudget) {
+    scene = JSON.stringify(compactWorldSlice(slice), null, 2);
+    trimmed.push("compacted the scene");
+  }
+  const overBy = total() - tokenBudget;
+  if (overBy > 0 && storySoFar) {
+    const keep = Math.max(0, storySoFar.length - overBy * 4);
+    storySoFar = keep > 0 ? `...${storySoFar.slice(storySoFar.length - keep)}` : "";
+    trimmed.push("shortened the summary");
+  }
+
+  return {
+    scene,
+    storySoFar,
+    recentExchanges: exchanges.join("\n\n"),
+    estimatedTokens: total(),
+    trimmed,
+  };
+}
+
+/**
+ * Renders the GM prompt for one turn from the prompt set's `game-master` template.
+ * `actingCharacter` is only given in shared worlds, where it names whose turn it is.
+ */
+export function renderGameMasterPrompt(
+  prompts: Prompts,
+  context: GameMasterContext,
+  playerInput: string,
+  genre: string,
+  resolvedAction?: ResolvedAction,
+  worldEvents: WorldEvent[] = [],
+  actingCharacter?: string,
+): string {
+  return prompts.render("game-master", {
+    summary: context.storySoFar,
+    exchanges: context.recentExchanges,
+    outcome: resolvedAction?.outcome,
+    success: resolvedAction?.success ?? false,
+    events: worldEvents.map((event) => `-   ${event.description}`).join("\n"),
+    scene: context.scene,
+    playerInput,
+    actingCharacter,
+  }, genre);
+}
@@ -0,0 +1,111 @@
+// File: /src/context/storyMemory.ts
+
+import * as logger from "firebase-functions/logger";
+import { TURNS_SUBCOLLECTION } from "../firebase";
+import { StoryMemory, TurnRecord } from "../types/turnRecord";
+import { LlmProvider } from "../llm/provider";
+import { generateValidatedJson } from "../llm/structuredOutput";
+import { Prompts } from "../prompts/promptRegistry";
+
+type DocRef = FirebaseFirestore.DocumentReference;
+
+export type Exchange = Pick<TurnRecord, "turnNumber" | "playerInput" | "narrative" | "actor">;
+
+/** What the GM remembers going into a turn: the summary, then every later turn word for word. */
+export interface StoryHistory {
+  memory: StoryMemory;
+  exchanges: Exchange[];
+}
+
+export const EMPTY_STORY_MEMORY: StoryMemory = { summary: "", throughTurn: -1 };
+
+// Summaries longer than this are sent back to the model to be tightened.
+const MAX_SUMMARY_LENGTH = 3000;
+
+/**
+ * Splits a run of stored turns (oldest first) into the latest summary and the turns after it.
+ */
+export function historyFromTurns(turns: (Exchange & Pick<TurnRecord, "memory">)[]): StoryHistory {
+  const memory = [...turns].reverse().find((turn) => turn.memory)?.memory ?? EMPTY_STORY_MEMORY;
+  return {
+    memory,
+    exchanges: turns
+      .filter((turn) => turn.turnNumber > memory.throughTurn)
+      .map(({ turnNumber, playerInput, narrative, actor }) => ({ turnNumber, playerInput, narrative, actor })),
+  };
+}
+
+/**
+ * The history going into the turn after `exchange`, given the memory that turn was played
+ * with. For playing several turns in a row without reloading them.
+ */
+export function appendExchange(history: StoryHistory, memory: StoryMemory, exchange: Exchange): StoryHistory {
+  return {
+    memory,
+    exchanges: [...history.exchanges, exchange].filter((entry) => entry.turnNumber > memory.throughTurn),
+  };
+}
+
+/**
+ * Loads the latest summary and the turns after it. Only a bounded window is read, so
+ * if summarising has failed for a long stretch the oldest unsummarised turns drop out.
+ */
+export async function loadStoryHistory(sessionRef: DocRef, options: { recentExchanges: number, summaryBatch: number }): Promise<StoryHistory> {
+  const snapshot = await sessionRef.collection(TURNS_SUBCOLLECTION)
+    .orderBy("turnNumber", "desc")
+    .limit(options.recentExchanges + options.summaryBatch * 2)
+    .select("turnNumber", "playerInput", "narrative", "actor", "memory")
+    .get();
+  return historyFromTurns(snapshot.docs.map((doc) => doc.data() as Exchange & Pick<TurnRecord, "memory">).reverse());
+}
+
+export function formatExchange(exchange: Exchange): string {
+  if (!exchange.playerInput) {
+    return `Opening\n${exchange.narrative}`;
+  }
+  return `Turn ${exchange.turnNumber}${exchange.actor ? ` (${exchange.actor})` : ""}\n> ${exchange.playerInput}\n${exchange.narrative}`;
+}
+
+
+/**
+ * Folds the oldest verbatim turns into the summary once at least `summaryBatch` of them
+ * sit outside the `recentExchanges` window. A failed summary is logged and retried on a
+ * later turn; the GM just sees a few more verbatim turns in the meantime.
+ */
+export async function foldStoryHistory(
+  history: StoryHistory,
+  provider: LlmProvider,
+  prompts: Prompts,
+  options: { recentExchanges: number, summaryBatch: number },
+): Promise<StoryHistory> {
+  const toFold = history.exchanges.slice(0, Math.max(0, history.exchanges.length - options.recentExchanges));
+  if (options.summaryBatch === 0 || toFold.length < options.summaryBatch) {
+    return history;
+  }
+
+  try {
+    const reply = await generateValidatedJson<{ summary: string }>(
+      provider,
+      { purpose: "turn-summary", prompt: prompts.render("turn-summary", { summary: history.memory.summary, exchanges: toFold.map(formatExchange).join("\n\n") }) },
+      (value) => {
+        const summary = (value as { summary?: unknown })?.summary;
+        if (typeof summary !== "string" || !summary.trim()) {
+          return [{ path: "summary", message: "must be a non-empty string" }];
+        }
+        if (summary.length > MAX_SUMMARY_LENGTH) {
+          return [{ path: "summary", message: `is ${summary.length} characters long; keep it under ${MAX_SUMMARY_LENGTH}` }];
+        }
+        return [];
+      },
+    );
+    const throughTurn = toFold[toFold.length - 1].turnNumber;
+    logger.info(`Folded turns ${toFold[0].turnNumber}-${throughTurn} into the story summary.`);
+    return {
+      memory: { summary: reply.summary.trim(), throughTurn },
+      exchanges: history.exchanges.slice(toFold.length),
+    };
+  } catch (error) {
+    logger.error("Story summary failed; keeping the previous one.", error);
+    return history;
+  }
+}
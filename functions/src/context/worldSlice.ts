@@ -0,0 +1,101 @@
+// File: /src/context/worldSlice.ts
+
+import { GameState, Item, Npc, PlayerCharacter } from "../types/gameState";
+import { otherCharacters } from "../engine/party";
+
+type Gkn = GameState["gkn"];
+
+/**
+ * The part of the world the GM needs for one turn: where the player stands, what is
+ * in reach, who is present, and the story-level state. Everything else stays in the
+ * stored GKN, which is still what the GM's operations are validated against.
+ */
+export interface WorldSlice {
+  player: Omit<PlayerCharacter, "inventory"> & { inventory: Item[] };
+  genre: string;
+  coreConflict: string;
+  fluidCountdown: { description: string; currentStage: number; now?: string; next?: string };
+  currentLocation: {
+    id: string;
+    name: string;
+    description: string;
+    exits: Record<string, { toLocationId: string; toName?: string; description: string; isLocked?: boolean; keyId?: string }>;
+    items: Item[];
+  };
+  npcsPresent: Npc[];
+  /** Shared worlds only: the other players' characters standing in the same place. */
+  otherPlayersPresent?: { name: string; conditions: string[] }[];
+  /** Where exits lead. Dropped to names only when the context is over budget. */
+  adjacentLocations?: Record<string, { name: string; description?: string }>;
+  /** Everyone else, so the GM can still move them. Dropped when the context is over budget. */
+  npcsElsewhere?: { id: string; name: string; locationId: string }[];
+  discoverableInfo: Record<string, { description: string; isDiscovered: boolean }>;
+  activeStoryFlags: Record<string, unknown>;
+}
+
+const lookupItems = (gkn: Gkn, ids: string[]): Item[] =>
+  ids.map((id) => gkn.world.items[id]).filter((item): item is Item => !!item);
+
+// Flags the story has cleared (false, empty, zero) are left out.
+const isActiveFlag = (value: unknown) => value !== undefined && value !== null && value !== false && value !== "" && value !== 0;
+
+export function buildWorldSlice(gkn: Gkn): WorldSlice {
+  const { player, world } = gkn;
+  const location = world.locations[player.locationId];
+  const exits = location?.exits ?? {};
+  const countdown = world.fluidCountdown;
+
+  const adjacentLocations: NonNullable<WorldSlice["adjacentLocations"]> = {};
+  for (const exit of Object.values(exits)) {
+    const neighbour = world.locations[exit.toLocationId];
+    if (neighbour) {
+      adjacentLocations[neighbour.id] = { name: neighbour.name, description: neighbour.description };
+    }
+  }
+
+  const npcs = Object.values(world.npcs);
+  return {
+    player: { ...player, inventory: lookupItems(gkn, player.inventory) },
+    genre: world.genre,
+    coreConflict: world.coreConflict,
+    fluidCountdown: {
+      description: countdown.description,
+      currentStage: countdown.currentStage,
+      now: countdown.stages[countdown.currentStage],
+      next: countdown.stages[countdown.currentStage + 1],
+    },
+    currentLocation: {
+      id: player.locationId,
+      name: location?.name ?? player.locationId,
+      description: location?.description ?? "",
+      exits: Object.fromEntries(Object.entries(exits).map(([direction, exit]) => [
+        direction,
+        { ...exit, toName: world.locations[exit.toLocationId]?.name },
+      ])),
+      items: lookupItems(gkn, location?.items ?? []),
+    },
+    npcsPresent: npcs.filter((npc) => npc.locationId === player.locationId),
+    otherPlayersPresent: gkn.party
+      ? otherCharacters(gkn)
+        .filter((character) => character.locationId === player.locationId)
+        .map((character) => ({ name: character.name, conditions: character.conditions ?? [] }))
+      : undefined,
+    adjacentLocations,
+    npcsElsewhere: npcs
+      .filter((npc) => npc.locationId !== player.locationId)
+      .map((npc) => ({ id: npc.id, name: npc.name, locationId: npc.locationId })),
+    discoverableInfo: world.discoverableInfo,
+    activeStoryFlags: Object.fromEntries(Object.entries(world.storyFlags ?? {}).filter(([, value]) => isActiveFlag(value))),
+  };
+}
+
+/**
+ * A smaller slice for tight budgets: neighbours by name only and no roster of absent NPCs.
+ */
+export function compactWorldSlice(slice: WorldSlice): WorldSlice {
+  return {
+    ...slice,
+    npcsElsewhere: undefined,
+    adjacentLocations: Object.fromEntries(Object.entries(slice.adjacentLocations ?? {}).map(([id, { name }]) => [id, { name }])),
+  };
+}
@@ -0,0 +1,320 @@
+// File: /src/engine/actionResolver.ts
+
+import { GameState, Item } from "../types/gameState";
+import { StateOperation } from "../types/stateOps";
+
+type Gkn = GameState["gkn"];
+
+/**
+ * A player intent the engine can settle on its own, without asking the model.
+ * `target` and `item` are the raw words the player used.
+ */
+export type PlayerIntent =
+  | { kind: 'go'; target: string }
+  | { kind: 'take'; item: string }
+  | { kind: 'drop'; item: string }
+  | { kind: 'use'; item: string; target?: string }
+  | { kind: 'unlock'; target?: string; item?: string }
+  | { kind: 'open'; target?: string };
+
+export interface ResolvedAction {
+  intent: PlayerIntent;
+  success: boolean;
+  /** A plain statement of what happened, handed to the GM to narrate. */
+  outcome: string;
+  /** Operations the engine has already decided on. Empty when the action failed. */
+  operations: StateOperation[];
+}
+
+const DIRECTION_ALIASES: Record<string, string> = {
+  n: "north", s: "south", e: "east", w: "west",
+  ne: "northeast", nw: "northwest", se: "southeast", sw: "southwest",
+  u: "up", d: "down",
+};
+
+const DIRECTIONS = new Set([...Object.values(DIRECTION_ALIASES), "in", "out", "inside", "outside"]);
+
+const INTENT_PATTERNS: { pattern: RegExp, build: (match: RegExpMatchArray) => PlayerIntent }[] = [
+  { pattern: /^(?:go|walk|head|move|run|climb|travel)\s+(?:to\s+|towards?\s+|through\s+)?(.+)$/, build: (m) => ({ kind: "go", target: m[1] }) },
+  { pattern: /^(north|south|east|west|northeast|northwest|southeast|southwest|up|down|n|s|e|w|ne|nw|se|sw|u|d)$/, build: (m) => ({ kind: "go", target: m[1] }) },
+  // "get up" and "get out" are movement or posture, not things to pick up.
+  { pattern: /^(?:take|get|grab|pick\s+up)\s+(?!(?:up|down|in|out|inside|outside|off|on|away)$)(.+?)(?:\s+up)?$/, build: (m) => ({ kind: "take", item: m[1] }) },
+  { pattern: /^(?:drop|discard|put\s+down)\s+(.+)$/, build: (m) => ({ kind: "drop", item: m[1] }) },
+  { pattern: /^unlock\s+(.+?)\s+with\s+(.+)$/, build: (m) => ({ kind: "unlock", target: m[1], item: m[2] }) },
+  { pattern: /^unlock(?:\s+(.+))?$/, build: (m) => ({ kind: "unlock", target: m[1] }) },
+  { pattern: /^open(?:\s+(.+))?$/, build: (m) => ({ kind: "open", target: m[1] }) },
+  { pattern: /^use\s+(.+?)\s+(?:on|with)\s+(.+)$/, build: (m) => ({ kind: "use", item: m[1], target: m[2] }) },
+  { pattern: /^use\s+(.+)$/, build: (m) => ({ kind: "use", item: m[1] }) },
+];
+
+/** The whole words in a name or description, so "up" never matches inside "cup". */
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** True when every word the player used appears as a whole word in `text`. */
+function mentions(text: string, wanted: string): boolean {
+  const words = new Set(wordsOf(text));
+  const wantedWords = wordsOf(wanted);
+  return wantedWords.length > 0 && wantedWords.every((word) => words.has(word));
+}
+
+function normalise(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.!?]+$/, "")
+    .replace(/\b(the|a|an|my|door|way|exit|passage)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Recognises the short, common commands the engine resolves itself ("go north",
+ * "take the key", "unlock door with brass key", "open the trapdoor"). Anything else returns undefined
+ * and is left entirely to the GM.
+ */
+export function parsePlayerIntent(playerInput: string): PlayerIntent | undefined {
+  const input = playerInput.toLowerCase().trim().replace(/^i\s+/, "").replace(/[.!?]+$/, "");
+  for (const { pattern, build } of INTENT_PATTERNS) {
+    const match = input.match(pattern);
+    if (match) {
+      return build(match);
+    }
+  }
+  return undefined;
+}
+
+function describeList(items: Item[]): string {
+  return items.map((item) => item.name).join(" or ");
+}
+
+/**
+ * Finds items among `itemIds` whose id or name matches the player's words.
+ * An exact name match wins over partial ones.
+ */
+function matchItems(gkn: Gkn, itemIds: string[], words: string): Item[] {
+  const wanted = normalise(words);
+  const candidates = itemIds.map((id) => gkn.world.items[id]).filter((item): item is Item => !!item);
+  const exact = candidates.filter((item) => item.id.toLowerCase() === wanted || item.name.toLowerCase() === wanted);
+  if (exact.length > 0) {
+    return exact;
+  }
+  return candidates.filter((item) => mentions(item.name, wanted));
+}
+
+/**
+ * Finds the exit from the player's location the player is referring to: by direction,
+ * then by the name of the destination, then by the exit's own description ("the
+ * trapdoor"). A description that fits more than one exit matches none.
+ */
+function matchExit(gkn: Gkn, words: string): { direction: string, exit: GameState["gkn"]["world"]["locations"][string]["exits"][string] } | undefined {
+  const location = gkn.world.locations[gkn.player.locationId];
+  const wanted = normalise(words);
+  const direction = DIRECTION_ALIASES[wanted] ?? wanted;
+
+  for (const [exitDirection, exit] of Object.entries(location.exits)) {
+    if (exitDirection.toLowerCase() === direction) {
+      return { direction: exitDirection, exit };
+    }
+  }
+  for (const [exitDirection, exit] of Object.entries(location.exits)) {
+    const destination = gkn.world.locations[exit.toLocationId];
+    if (destination && mentions(destination.name, wanted)) {
+      return { direction: exitDirection, exit };
+    }
+  }
+  const described = Object.entries(location.exits).filter(([, exit]) => mentions(exit.description, wanted));
+  return described.length === 1 ? { direction: described[0][0], exit: described[0][1] } : undefined;
+}
+
+function fail(intent: PlayerIntent, outcome: string): ResolvedAction {
+  return { intent, success: false, outcome, operations: [] };
+}
+
+function resolveUnlock(gkn: Gkn, intent: PlayerIntent, rawTarget: string | undefined, itemWords: string | undefined): ResolvedAction {
+  const location = gkn.world.locations[gkn.player.locationId];
+  // "unlock the door" names no exit in particular.
+  const target = rawTarget && normalise(rawTarget) ? rawTarget : undefined;
+  let found = target ? matchExit(gkn, target) : undefined;
+  if (!target) {
+    const locked = Object.entries(location.exits).filter(([, exit]) => exit.isLocked);
+    if (locked.length === 1) {
+      found = { direction: locked[0][0], exit: locked[0][1] };
+    } else if (locked.length > 1) {
+      return fail(intent, `There is more than one locked exit here (${locked.map(([direction]) => direction).join(", ")}); the player did not say which.`);
+    }
+  }
+  if (!found) {
+    return fail(intent, `There is nothing here matching '${target ?? "a locked exit"}' that can be unlocked.`);
+  }
+  if (!found.exit.isLocked) {
+    return fail(intent, `The ${found.direction} exit is not locked.`);
+  }
+
+  let key: Item | undefined;
+  if (itemWords) {
+    const matches = matchItems(gkn, gkn.player.inventory, itemWords);
+    if (matches.length === 0) {
+      return fail(intent, `The player is not carrying anything matching '${itemWords}'.`);
+    }
+    key = matches.find((item) => item.id === found?.exit.keyId) ?? matches[0];
+  } else if (found.exit.keyId && gkn.player.inventory.includes(found.exit.keyId)) {
+    key = gkn.world.items[found.exit.keyId];
+  }
+
+  if (!key) {
+    return fail(intent, `The ${found.direction} exit is locked and the player has nothing to open it with.`);
+  }
+  if (key.id !== found.exit.keyId) {
+    return fail(intent, `The ${key.name} does not fit the lock on the ${found.direction} exit. It stays locked.`);
+  }
+  return {
+    intent,
+    success: true,
+    outcome: `The player unlocks the ${found.direction} exit with the ${key.name}.`,
+    operations: [{ op: "setExitLock", locationId: gkn.player.locationId, direction: found.direction, isLocked: false }],
+  };
+}
+
+/**
+ * Settles an intent against the GKN: movement respects locked exits, and items can only
+ * be taken from the player's location and dropped or used from the inventory.
+ * Returns undefined when the intent needs the GM's judgement, for example using an
+ * item on something that is not a lock, or "take" with a noun that is not an item.
+ */
+export function resolveAction(gkn: Gkn, intent: PlayerIntent): ResolvedAction | undefined {
+  const location = gkn.world.locations[gkn.player.locationId];
+  if (!location) {
+    return undefined;
+  }
+
+  switch (intent.kind) {
+    case "go": {
+      const found = matchExit(gkn, intent.target);
+      if (!found) {
+        const wanted = normalise(intent.target);
+        // "go north" with no north exit is settled here; "go to sleep" is the GM's business.
+        return DIRECTIONS.has(DIRECTION_ALIASES[wanted] ?? wanted)
+          ? fail(intent, `There is no way to go ${DIRECTION_ALIASES[wanted] ?? wanted} from ${location.name}.`)
+          : undefined;
+      }
+      const destination = gkn.world.locations[found.exit.toLocationId];
+      if (found.exit.isLocked) {
+        return fail(intent, `The ${found.direction} exit (${found.exit.description}) is locked. The player stays in ${location.name}.`);
+      }
+      return {
+        intent,
+        success: true,
+        outcome: `The player goes ${found.direction} from ${location.name} to ${destination.name}.`,
+        operations: [{ op: "movePlayer", locationId: destination.id }],
+      };
+    }
+
+    case "take": {
+      if (matchItems(gkn, Object.keys(gkn.world.items), intent.item).length === 0) {
+        // Not an item in this world at all ("take a deep breath"), so leave it to the GM.
+        return undefined;
+      }
+      const matches = matchItems(gkn, location.items, intent.item);
+      if (matches.length === 0) {
+        const carried = matchItems(gkn, gkn.player.inventory, intent.item);
+        return fail(intent, carried.length > 0
+          ? `The player is already carrying the ${carried[0].name}.`
+          : `There is no '${intent.item}' in ${location.name} to take.`);
+      }
+      if (matches.length > 1) {
+        return fail(intent, `It is unclear which item the player means: ${describeList(matches)}.`);
+      }
+      return {
+        intent,
+        success: true,
+        outcome: `The player picks up the ${matches[0].name}.`,
+        operations: [{ op: "addInventoryItem", itemId: matches[0].id }],
+      };
+    }
+
+    case "drop": {
+      if (matchItems(gkn, Object.keys(gkn.world.items), intent.item).length === 0) {
+        return undefined;
+      }
+      const matches = matchItems(gkn, gkn.player.inventory, intent.item);
+      if (matches.length === 0) {
+        return fail(intent, `The player is not carrying anything matching '${intent.item}'.`);
+      }
+      if (matches.length > 1) {
+        return fail(intent, `It is unclear which item the player means: ${describeList(matches)}.`);
+      }
+      return {
+        intent,
+        success: true,
+        outcome: `The player drops the ${matches[0].name} in ${location.name}.`,
+        operations: [{ op: "removeInventoryItem", itemId: matches[0].id, dropAtLocationId: location.id }],
+      };
+    }
+
+    case "unlock":
+      return resolveUnlock(gkn, intent, intent.target, intent.item);
+
+    case "open": {
+      // Opening a locked exit means unlocking it. Opening anything else (a book, an
+      // unlocked door, the curtains) is the GM's to narrate.
+      const target = intent.target && normalise(intent.target) ? intent.target : undefined;
+      const found = target ? matchExit(gkn, target) : undefined;
+      const anyLocked = Object.values(location.exits).some((exit) => exit.isLocked);
+      if (target ? !found?.exit.isLocked : !anyLocked) {
+        return undefined;
+      }
+      return resolveUnlock(gkn, intent, found?.direction, undefined);
+    }
+
+    case "use": {
+      if (matchItems(gkn, Object.keys(gkn.world.items), intent.item).length === 0) {
+        return undefined;
+      }
+      const matches = matchItems(gkn, gkn.player.inventory, intent.item);
+      if (matches.length === 0) {
+        return fail(intent, `The player is not carrying anything matching '${intent.item}'.`);
+      }
+      const item = matches[0];
+      const lockedExits = Object.entries(location.exits).filter(([, exit]) => exit.isLocked && exit.keyId === item.id);
+      if (lockedExits.length > 0 && (!intent.target || matchExit(gkn, intent.target))) {
+        return resolveUnlock(gkn, intent, intent.target ?? lockedExits[0][0], item.id);
+      }
+      // The item is carried, but what using it does is for the GM to decide.
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Once the engine has resolved an action, the GM may not contradict it: no moving
+ * the player elsewhere after a resolved movement, and no touching the same exit
+ * lock or item. Returns the index and reason for each conflicting operation.
+ */
+export function findConflictingOperations(resolved: ResolvedAction, operations: unknown[]): { index: number, reason: string }[] {
+  const conflicts: { index: number, reason: string }[] = [];
+  const movementResolved = resolved.intent.kind === "go";
+  const lockedExits = new Set<string>();
+  const items = new Set<string>();
+
+  for (const operation of resolved.operations) {
+    if (operation.op === "setExitLock") {
+      lockedExits.add(`${operation.locationId}/${operation.direction}`);
+    } else if (operation.op === "addInventoryItem" || operation.op === "removeInventoryItem") {
+      items.add(operation.itemId);
+    }
+  }
+
+  operations.forEach((operation, index) => {
+    const op = operation as Partial<Record<string, unknown>>;
+    if (movementResolved && op?.op === "movePlayer") {
+      conflicts.push({ index, reason: "the engine already resolved the player's movement; do not move the player" });
+    } else if (op?.op === "setExitLock" && lockedExits.has(`${op.locationId}/${op.direction}`)) {
+      conflicts.push({ index, reason: "the engine already resolved this lock; do not change it" });
+    } else if ((op?.op === "addInventoryItem" || op?.op === "removeInventoryItem") && items.has(op.itemId as string)) {
+      conflicts.push({ index, reason: "the engine already moved this item; do not move it again" });
+    }
+  });
+
+  return conflicts;
+}
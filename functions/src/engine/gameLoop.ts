@@ -0,0 +1,153 @@
+// File: /src/engine/gameLoop.ts
+
+import * as logger from "firebase-functions/logger";
+import { GameState, StoryGenre } from "../types/gameState";
+import { RejectedOperation, StateOperation } from "../types/stateOps";
+import { StoryMemory } from "../types/turnRecord";
+import { WorldClock, WorldEvent } from "../types/worldEvent";
+import { LlmProvider } from "../llm/provider";
+import { generateValidatedJson } from "../llm/structuredOutput";
+import { Prompts } from "../prompts/promptRegistry";
+import { validateStoryResponse, validateTurnResponse } from "../validation/gknValidator";
+import { buildGameMasterContext, ContextConfig, getContextConfig, renderGameMasterPrompt } from "../context/contextBuilder";
+import { foldStoryHistory, StoryHistory } from "../context/storyMemory";
+import { applyStateOperations } from "./stateEngine";
+import { applyPlayerStatDefaults } from "./playerStats";
+import { storeActingCharacter } from "./party";
+import { parsePlayerIntent, resolveAction, ResolvedAction } from "./actionResolver";
+import { getWorldTickConfig, isTickDue, observableEvents, runWorldTick, WorldTickConfig, WorldTickResult } from "./worldTick";
+
+// The game itself, with no storage: callers load the state, run a step, and persist the
+// result however they like (Firestore for the functions, memory for the eval harness).
+
+type Gkn = GameState["gkn"];
+
+export interface GameLoopOptions {
+  provider: LlmProvider;
+  prompts: Prompts;
+  /** Receives the GM's narrative as it streams in. */
+  onNarrative?: (text: string) => void;
+  contextConfig?: ContextConfig;
+  tickConfig?: WorldTickConfig;
+}
+
+/**
+ * Asks the model for a GKN-0 and opening hook from a seed, filling in any player stats it
+ * left out. Throws ModelOutputError if the model cannot produce a valid world.
+ */
+export async function generateStoryWorld(
+  seed: string,
+  genre: StoryGenre,
+  playerName: string,
+  options: Pick<GameLoopOptions, "provider" | "prompts">,
+): Promise<{ gkn: Gkn, initialHook: string }> {
+  const { provider, prompts } = options;
+  const prompt = prompts.render("story-generator", { seed, genre, playerName }, genre);
+  logger.info(`Sending prompt to ${provider.name} (${provider.model}) for GKN-0 and Hook generation.`);
+  const story = await generateValidatedJson<{ gkn: Gkn, initialHook: string }>(
+    provider,
+    { purpose: "story-generation", prompt },
+    validateStoryResponse,
+  );
+  applyPlayerStatDefaults(story.gkn.player, story.gkn.world.genre);
+  return story;
+}
+
+/** A session's state going into a turn. */
+export interface TurnInput {
+  gkn: Gkn;
+  worldClock?: WorldClock;
+  pendingWorldEvents?: WorldEvent[];
+  history: StoryHistory;
+}
+
+export interface TurnOutcome {
+  turnNumber: number;
+  narrative: string;
+  /** Every operation applied: the resolved action, then the world tick, then the GM's. */
+  operations: StateOperation[];
+  /** GM operations the engine refused. Validation dry-runs them, so this should stay empty. */
+  rejected: RejectedOperation[];
+  resolvedAction?: ResolvedAction;
+  worldEvents: WorldEvent[];
+  /** Set when the world ticked this turn. */
+  worldClock?: WorldClock;
+  gknAfter: Gkn;
+  memory: StoryMemory;
+}
+
+/**
+ * Plays one turn. Common actions are settled by the engine first, then the world moves
+ * on its own, then the GM narrates on top of both. A failing world tick or summary is
+ * logged and skipped; a GM reply that stays invalid throws ModelOutputError, and nothing
+ * in `input` is modified either way. In a shared world, `input.gkn` must already be
+ * focused on the acting character (see engine/party.ts).
+ */
+export async function runTurn(input: TurnInput, playerInput: string, options: GameLoopOptions): Promise<TurnOutcome> {
+  const { provider, prompts } = options;
+  const contextConfig = options.contextConfig ?? getContextConfig();
+  const turnNumber = (input.gkn.turnCount || 0) + 1;
+
+  // Common actions (movement, taking, dropping, unlocking) are settled by the engine first.
+  // The GM only narrates the outcome and handles everything else on top of it.
+  const intent = parsePlayerIntent(playerInput);
+  const resolvedAction = intent ? resolveAction(input.gkn, intent) : undefined;
+  if (resolvedAction) {
+    logger.info("Engine resolved player action.", { resolvedAction });
+  }
+  const afterAction = resolvedAction
+    ? applyStateOperations(input.gkn, resolvedAction.operations).gkn
+    : input.gkn;
+
+  // Then the world moves on its own (NPC plans, the countdown) before the GM narrates.
+  let tick: WorldTickResult | undefined;
+  const tickConfig = options.tickConfig ?? getWorldTickConfig();
+  if (isTickDue(turnNumber, tickConfig)) {
+    try {
+      tick = await runWorldTick(afterAction, input.worldClock, turnNumber, provider, prompts, tickConfig);
+    } catch (error) {
+      logger.error("World tick failed; continuing without it.", error);
+    }
+  }
+  const currentGkn = tick ? tick.gkn : afterAction;
+  const worldEvents: WorldEvent[] = [...(input.pendingWorldEvents ?? []), ...(tick?.events ?? [])];
+
+  // The GM sees a slice of the world and a summary of the story, not the whole history.
+  const history = await foldStoryHistory(input.history, provider, prompts, contextConfig);
+  const context = buildGameMasterContext(currentGkn, history, contextConfig.tokenBudget);
+  if (context.trimmed.length > 0) {
+    logger.warn("GM context was over budget.", { trimmed: context.trimmed, estimatedTokens: context.estimatedTokens });
+  }
+
+  const actingCharacter = currentGkn.party ? currentGkn.player.name : undefined;
+  const gmPrompt = renderGameMasterPrompt(prompts, context, playerInput, currentGkn.world.genre, resolvedAction, observableEvents(currentGkn, worldEvents), actingCharacter);
+  logger.info(`Sending GM prompt to ${provider.name} (${provider.model}).`, { estimatedContextTokens: context.estimatedTokens });
+
+  const responseObject = await generateValidatedJson<{ narrative: string, operations: StateOperation[] }>(
+    provider,
+    { purpose: "game-master", prompt: gmPrompt },
+    (value) => validateTurnResponse(value, currentGkn, resolvedAction),
+    { onNarrative: options.onNarrative },
+  );
+  logger.info("Successfully parsed GM response.");
+
+  // The operations were dry-run during validation, so nothing should be rejected here.
+  const { gkn: gknAfter, applied, rejected } = applyStateOperations(currentGkn, responseObject.operations);
+  if (rejected.length > 0) {
+    logger.warn("Some GM operations were rejected.", { rejected });
+  }
+  gknAfter.turnCount = turnNumber;
+  storeActingCharacter(gknAfter);
+
+  return {
+    turnNumber,
+    narrative: responseObject.narrative,
+    operations: [...(resolvedAction?.operations ?? []), ...(tick?.operations ?? []), ...applied],
+    rejected,
+    resolvedAction,
+    worldEvents,
+    worldClock: tick?.clock,
+    gknAfter,
+    memory: history.memory,
+  };
+}
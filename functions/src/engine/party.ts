@@ -0,0 +1,74 @@
+// File: /src/engine/party.ts
+
+import { GameState, PlayerCharacter, SessionMember } from "../types/gameState";
+import { applyPlayerStatDefaults } from "./playerStats";
+
+// In a shared world every character lives in `gkn.party`, and `gkn.player` is a copy of
+// whoever is acting. The engine, the validator and the GM prompts only ever look at
+// `player`, so a turn is played by focusing the actor, running it as usual, and writing
+// the actor back into the party afterwards.
+
+type Gkn = GameState["gkn"];
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Makes sure the GKN has a character for every member. Members who joined after this
+ * GKN was written (e.g. it was rewound to before they joined) get a fresh character
+ * where the last acting character stands. The input is never mutated.
+ */
+export function withParty(gkn: Gkn, members: SessionMember[]): Gkn {
+  const next = clone(gkn);
+  const host = members[0];
+  if (!host) {
+    return next;
+  }
+  if (!next.party) {
+    next.party = { [host.characterId]: clone(next.player) };
+    next.actingCharacterId = host.characterId;
+  }
+  const party = next.party;
+  const startId = next.actingCharacterId && party[next.actingCharacterId] ? next.actingCharacterId : host.characterId;
+  for (const member of members) {
+    if (!party[member.characterId]) {
+      const character: PlayerCharacter = { name: member.characterName, locationId: party[startId]?.locationId ?? next.player.locationId, inventory: [] };
+      applyPlayerStatDefaults(character, next.world.genre);
+      party[member.characterId] = character;
+    }
+  }
+  return next;
+}
+
+/** Returns a copy of a shared GKN with `characterId` as the acting player. */
+export function focusCharacter(gkn: Gkn, characterId: string): Gkn {
+  const next = clone(gkn);
+  const character = next.party?.[characterId];
+  if (!character) {
+    throw new Error(`The party has no character '${characterId}'.`);
+  }
+  next.player = clone(character);
+  next.actingCharacterId = characterId;
+  return next;
+}
+
+/** Writes the acting player back into the party, in place. Does nothing in a solo world. */
+export function storeActingCharacter(gkn: Gkn): void {
+  if (gkn.party && gkn.actingCharacterId) {
+    gkn.party[gkn.actingCharacterId] = clone(gkn.player);
+  }
+}
+
+/** The other characters, for the GM to see who else is around. */
+export function otherCharacters(gkn: Gkn): PlayerCharacter[] {
+  return Object.entries(gkn.party ?? {})
+    .filter(([id]) => id !== gkn.actingCharacterId)
+    .map(([, character]) => character);
+}
+
+/** A solo copy of a shared GKN, played by `characterId`, e.g. for a private fork. */
+export function leaveParty(gkn: Gkn, characterId: string): Gkn {
+  const next = gkn.party?.[characterId] ? focusCharacter(gkn, characterId) : clone(gkn);
+  delete next.party;
+  delete next.actingCharacterId;
+  return next;
+}
@@ -0,0 +1,21 @@
+// File: /src/engine/playerStats.ts
+
+import { GENRE_ATTRIBUTES, PLAYER_ATTRIBUTE_RANGE, PlayerCharacter, StoryGenre } from "../types/gameState";
+
+export const DEFAULT_MAX_HEALTH = 10;
+
+/**
+ * Fills in whatever player stats a new world left out: full health, no conditions, and an
+ * average rating in each of the genre's attributes. Stats that are present are kept, so
+ * an authored or generated character is never overwritten.
+ */
+export function applyPlayerStatDefaults(player: PlayerCharacter, genre: StoryGenre): void {
+  player.health ??= { current: DEFAULT_MAX_HEALTH, max: DEFAULT_MAX_HEALTH };
+  player.conditions ??= [];
+  const average = Math.ceil((PLAYER_ATTRIBUTE_RANGE.min + PLAYER_ATTRIBUTE_RANGE.max) / 2);
+  const attributes = player.attributes ?? {};
+  for (const name of GENRE_ATTRIBUTES[genre] ?? []) {
+    attributes[name] ??= average;
+  }
+  player.attributes = attributes;
+}
@@ -0,0 +1,288 @@
+// File: /src/engine/stateEngine.ts
+
+import { GameState, NPC_DISPOSITIONS, NPC_PLAN_STATUSES, PLAYER_ATTRIBUTE_RANGE, STORY_OUTCOMES } from "../types/gameState";
+import { RejectedOperation, StateOperation } from "../types/stateOps";
+import { otherCharacters } from "./party";
+
+type Gkn = GameState["gkn"];
+
+export interface ApplyResult {
+  gkn: Gkn;
+  applied: StateOperation[];
+  rejected: RejectedOperation[];
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * True when `id` names one of `record`'s own entries. A plain lookup would also accept
+ * Object.prototype's properties, so "constructor" would pass as an NPC or an item.
+ */
+function hasEntry(record: object, id: unknown): id is string {
+  return isString(id) && Object.prototype.hasOwnProperty.call(record, id);
+}
+
+// Assigning to this key replaces the object's prototype instead of adding an entry.
+const isNewKey = (key: unknown): key is string => isString(key) && key !== "__proto__";
+
+function removeFrom(list: string[], value: string): boolean {
+  const index = list.indexOf(value);
+  if (index === -1) {
+    return false;
+  }
+  list.splice(index, 1);
+  return true;
+}
+
+/**
+ * Applies one operation to `gkn` in place. Returns the reason it was rejected, or
+ * undefined on success. Nothing is mutated when an operation is rejected.
+ */
+function applyOperation(gkn: Gkn, operation: StateOperation): string | undefined {
+  const { world, player } = gkn;
+  // The model's output is untrusted, so every field is re-checked at runtime even
+  // though the type says it is already right.
+  const op = operation;
+
+  switch (op.op) {
+    case "movePlayer": {
+      if (!hasEntry(world.locations, op.locationId)) {
+        return `unknown locationId ${JSON.stringify(op.locationId)}`;
+      }
+      // The player walks; they do not teleport. Locks hold whoever narrates the move.
+      const exits = Object.values(world.locations[player.locationId]?.exits ?? {}).filter((exit) => exit.toLocationId === op.locationId);
+      if (op.locationId !== player.locationId && exits.length === 0) {
+        return `location '${op.locationId}' cannot be reached from '${player.locationId}'; no exit leads there`;
+      }
+      if (exits.length > 0 && exits.every((exit) => exit.isLocked)) {
+        return `the way from '${player.locationId}' to '${op.locationId}' is locked`;
+      }
+      player.locationId = op.locationId;
+      return undefined;
+    }
+
+    case "addInventoryItem": {
+      if (!hasEntry(world.items, op.itemId)) {
+        return `unknown itemId ${JSON.stringify(op.itemId)}`;
+      }
+      if (player.inventory.includes(op.itemId)) {
+        return `item '${op.itemId}' is already in the player's inventory`;
+      }
+      const holder = otherCharacters(gkn).find((character) => character.inventory.includes(op.itemId));
+      if (holder) {
+        return `item '${op.itemId}' is carried by ${holder.name}, another player's character`;
+      }
+      for (const location of Object.values(world.locations)) {
+        removeFrom(location.items, op.itemId);
+      }
+      player.inventory.push(op.itemId);
+      return undefined;
+    }
+
+    case "removeInventoryItem": {
+      if (!isString(op.itemId) || !player.inventory.includes(op.itemId)) {
+        return `item ${JSON.stringify(op.itemId)} is not in the player's inventory`;
+      }
+      if (op.dropAtLocationId !== undefined && !hasEntry(world.locations, op.dropAtLocationId)) {
+        return `unknown dropAtLocationId ${JSON.stringify(op.dropAtLocationId)}`;
+      }
+      removeFrom(player.inventory, op.itemId);
+      if (op.dropAtLocationId) {
+        world.locations[op.dropAtLocationId].items.push(op.itemId);
+      }
+      return undefined;
+    }
+
+    case "createItem": {
+      const item = op.item;
+      if (!item || !isNewKey(item.id) || !isString(item.name) || typeof item.description !== "string") {
+        return "item must have a non-empty id, a name and a description";
+      }
+      if (hasEntry(world.items, item.id)) {
+        return `item '${item.id}' already exists`;
+      }
+      if (op.locationId !== undefined && !hasEntry(world.locations, op.locationId)) {
+        return `unknown locationId ${JSON.stringify(op.locationId)}`;
+      }
+      world.items[item.id] = { id: item.id, name: item.name, description: item.description };
+      if (op.locationId) {
+        world.locations[op.locationId].items.push(item.id);
+      } else {
+        player.inventory.push(item.id);
+      }
+      return undefined;
+    }
+
+    case "moveNpc": {
+      if (!hasEntry(world.npcs, op.npcId)) {
+        return `unknown npcId ${JSON.stringify(op.npcId)}`;
+      }
+      if (!hasEntry(world.locations, op.locationId)) {
+        return `unknown locationId ${JSON.stringify(op.locationId)}`;
+      }
+      world.npcs[op.npcId].locationId = op.locationId;
+      return undefined;
+    }
+
+    case "setNpcDisposition": {
+      if (!hasEntry(world.npcs, op.npcId)) {
+        return `unknown npcId ${JSON.stringify(op.npcId)}`;
+      }
+      if (!NPC_DISPOSITIONS.includes(op.disposition)) {
+        return `invalid disposition ${JSON.stringify(op.disposition)}`;
+      }
+      world.npcs[op.npcId].disposition = op.disposition;
+      return undefined;
+    }
+
+    case "updateNpcPlan": {
+      if (!hasEntry(world.npcs, op.npcId)) {
+        return `unknown npcId ${JSON.stringify(op.npcId)}`;
+      }
+      if (!op.plan || typeof op.plan.description !== "string" || !NPC_PLAN_STATUSES.includes(op.plan.status)) {
+        return "plan must have a description and a valid status";
+      }
+      world.npcs[op.npcId].currentPlan = { description: op.plan.description, status: op.plan.status };
+      return undefined;
+    }
+
+    case "discoverInfo": {
+      if (!hasEntry(world.discoverableInfo, op.infoId)) {
+        return `unknown infoId ${JSON.stringify(op.infoId)}`;
+      }
+      world.discoverableInfo[op.infoId].isDiscovered = true;
+      return undefined;
+    }
+
+    case "advanceCountdown": {
+      const countdown = world.fluidCountdown;
+      const target = op.toStage === undefined ? countdown.currentStage + 1 : op.toStage;
+      if (typeof target !== "number" || !Number.isInteger(target) || target >= countdown.stages.length) {
+        return `stage ${JSON.stringify(target)} is past the last countdown stage (${countdown.stages.length - 1})`;
+      }
+      if (target <= countdown.currentStage) {
+        return `the countdown only moves forward (current stage ${countdown.currentStage}, requested ${target})`;
+      }
+      countdown.currentStage = target;
+      return undefined;
+    }
+
+    case "setExitLock": {
+      if (!hasEntry(world.locations, op.locationId)) {
+        return `unknown locationId ${JSON.stringify(op.locationId)}`;
+      }
+      const location = world.locations[op.locationId];
+      if (!hasEntry(location.exits, op.direction)) {
+        return `location '${op.locationId}' has no exit ${JSON.stringify(op.direction)}`;
+      }
+      if (typeof op.isLocked !== "boolean") {
+        return "isLocked must be a boolean";
+      }
+      const exit = location.exits[op.direction];
+      if (!op.isLocked && exit.isLocked && exit.keyId && !player.inventory.includes(exit.keyId)) {
+        return `the ${op.direction} exit of '${op.locationId}' needs '${exit.keyId}', which the player is not carrying`;
+      }
+      exit.isLocked = op.isLocked;
+      return undefined;
+    }
+
+    case "setStoryFlag": {
+      if (!isNewKey(op.key)) {
+        return "key must be a non-empty string other than '__proto__'";
+      }
+      if (!["string", "number", "boolean"].includes(typeof op.value)) {
+        return "value must be a string, a number or a boolean";
+      }
+      world.storyFlags[op.key] = op.value;
+      return undefined;
+    }
+
+    case "adjustHealth": {
+      if (!player.health) {
+        return "this world does not track the player's health";
+      }
+      if (typeof op.delta !== "number" || !Number.isInteger(op.delta) || op.delta === 0) {
+        return "delta must be a non-zero integer";
+      }
+      player.health.current = Math.min(player.health.max, Math.max(0, player.health.current + op.delta));
+      return undefined;
+    }
+
+    case "addCondition": {
+      if (!isString(op.condition)) {
+        return "condition must be a non-empty string";
+      }
+      const conditions = player.conditions ?? [];
+      if (conditions.includes(op.condition)) {
+        return `the player already has the condition '${op.condition}'`;
+      }
+      player.conditions = [...conditions, op.condition];
+      return undefined;
+    }
+
+    case "removeCondition": {
+      if (!isString(op.condition) || !player.conditions || !removeFrom(player.conditions, op.condition)) {
+        return `the player does not have the condition ${JSON.stringify(op.condition)}`;
+      }
+      return undefined;
+    }
+
+    case "setPlayerAttribute": {
+      const attributes = player.attributes ?? {};
+      if (!hasEntry(attributes, op.attribute)) {
+        return `the player has no attribute ${JSON.stringify(op.attribute)}`;
+      }
+      const { min, max } = PLAYER_ATTRIBUTE_RANGE;
+      if (typeof op.value !== "number" || !Number.isInteger(op.value) || op.value < min || op.value > max) {
+        return `value must be an integer from ${min} to ${max}`;
+      }
+      attributes[op.attribute] = op.value;
+      return undefined;
+    }
+
+    case "endStory": {
+      if (gkn.ending) {
+        return "the story has already ended";
+      }
+      if (!(STORY_OUTCOMES as readonly string[]).includes(op.outcome)) {
+        return `outcome must be one of ${STORY_OUTCOMES.join(", ")}`;
+      }
+      if (!isString(op.summary)) {
+        return "summary must be a non-empty string";
+      }
+      gkn.ending = { outcome: op.outcome, summary: op.summary };
+      return undefined;
+    }
+
+    default:
+      return `unknown operation ${JSON.stringify((operation as { op?: unknown }).op)}`;
+  }
+}
+
+/**
+ * Applies a list of operations to a copy of `gkn`. Each operation is applied
+ * independently; ones that reference unknown IDs or break the rules are rejected
+ * and reported, and the rest still take effect. The input is never mutated.
+ */
+export function applyStateOperations(gkn: Gkn, operations: unknown[]): ApplyResult {
+  const next: Gkn = JSON.parse(JSON.stringify(gkn));
+  const applied: StateOperation[] = [];
+  const rejected: RejectedOperation[] = [];
+
+  operations.forEach((operation, index) => {
+    if (typeof operation !== "object" || operation === null || Array.isArray(operation)) {
+      rejected.push({ index, operation, reason: "operation must be an object" });
+      return;
+    }
+    const reason = applyOperation(next, operation as StateOperation);
+    if (reason) {
+      rejected.push({ index, operation, reason });
+    } else {
+      applied.push(operation as StateOperation);
+    }
+  });
+
+  return { gkn: next, applied, rejected };
+}
@@ -0,0 +1,208 @@
+// File: /src/engine/worldTick.ts
+
+import * as logger from "firebase-functions/logger";
+import { GameState, Npc } from "../types/gameState";
+import { StateOperation } from "../types/stateOps";
+import { WorldClock, WorldEvent } from "../types/worldEvent";
+import { LlmProvider } from "../llm/provider";
+import { generateValidatedJson } from "../llm/structuredOutput";
+import { Prompts } from "../prompts/promptRegistry";
+import { ValidationIssue } from "../validation/gknValidator";
+import { applyStateOperations } from "./stateEngine";
+
+type Gkn = GameState["gkn"];
+
+/**
+ * World tick settings, read from the environment:
+ * - WORLD_TICK_EVERY_N_TURNS: tick after every Nth player turn (default 1; 0 turns it off).
+ * - WORLD_TICK_COUNTDOWN_EVERY: advance the fluid countdown one stage every N ticks (default 5; 0 leaves it to the GM).
+ * - WORLD_TICK_MAX_NPC_AGENTS: how many NPCs get an agent call per tick (default 3).
+ */
+export interface WorldTickConfig {
+  everyNTurns: number;
+  countdownEvery: number;
+  maxNpcAgents: number;
+}
+
+export function getWorldTickConfig(): WorldTickConfig {
+  const read = (name: string, fallback: number) => {
+    const raw = process.env[name];
+    const value = raw ? Number(raw) : NaN;
+    return Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    everyNTurns: read("WORLD_TICK_EVERY_N_TURNS", 1),
+    countdownEvery: read("WORLD_TICK_COUNTDOWN_EVERY", 5),
+    maxNpcAgents: read("WORLD_TICK_MAX_NPC_AGENTS", 3),
+  };
+}
+
+export function isTickDue(turnNumber: number, config: WorldTickConfig): boolean {
+  return config.everyNTurns > 0 && turnNumber % config.everyNTurns === 0;
+}
+
+export interface WorldTickResult {
+  gkn: Gkn;
+  operations: StateOperation[];
+  events: WorldEvent[];
+  clock: WorldClock;
+}
+
+interface NpcAgentReply {
+  event: string;
+  operations: StateOperation[];
+}
+
+/** Locations an NPC can walk to from where it stands: through an exit that is not locked. */
+function reachableLocationIds(gkn: Gkn, npc: Npc): string[] {
+  const location = gkn.world.locations[npc.locationId];
+  if (!location) {
+    return [];
+  }
+  return Object.values(location.exits).filter((exit) => !exit.isLocked).map((exit) => exit.toLocationId);
+}
+
+/**
+ * NPCs whose plans are in motion, key NPCs first, capped so a tick stays affordable.
+ */
+function selectActiveNpcs(gkn: Gkn, limit: number): Npc[] {
+  return Object.values(gkn.world.npcs)
+    .filter((npc) => npc.currentPlan?.status === "active")
+    .sort((a, b) => Number(b.isKeyNpc) - Number(a.isKeyNpc))
+    .slice(0, limit);
+}
+
+function getNpcAgentPrompt(prompts: Prompts, gkn: Gkn, npc: Npc): string {
+  const location = gkn.world.locations[npc.locationId];
+  const neighbours = reachableLocationIds(gkn, npc)
+    .map((id) => gkn.world.locations[id])
+    .filter((neighbour) => !!neighbour)
+    .map((neighbour) => `- ${neighbour.id}: ${neighbour.name}`)
+    .join("\n");
+  const countdown = gkn.world.fluidCountdown;
+  const playerPresent = gkn.player.locationId === npc.locationId;
+
+  return prompts.render("npc-agent", {
+    genre: gkn.world.genre,
+    coreConflict: gkn.world.coreConflict,
+    pressure: countdown.stages[countdown.currentStage] ?? countdown.description,
+    npc: JSON.stringify({ id: npc.id, name: npc.name, motivations: npc.motivations, personalityTags: npc.personalityTags, agenda: npc.agenda, disposition: npc.disposition, knowledge: npc.knowledge, currentPlan: npc.currentPlan }, null, 2),
+    npcId: npc.id,
+    location: location ? `${location.id}: ${location.name} - ${location.description}` : npc.locationId,
+    playerName: gkn.player.name,
+    playerPresence: playerPresent ? "HERE with you" : "not here",
+    neighbours: neighbours || "- (none)",
+  }, gkn.world.genre);
+}
+
+/**
+ * NPC agents may only act on themselves, and may only walk through unlocked exits.
+ */
+function validateNpcAgentReply(value: unknown, gkn: Gkn, npc: Npc): ValidationIssue[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [{ path: "(root)", message: "must be a JSON object" }];
+  }
+  const reply = value as Partial<Record<keyof NpcAgentReply, unknown>>;
+  const issues: ValidationIssue[] = [];
+  if (typeof reply.event !== "string") {
+    issues.push({ path: "event", message: "must be a string (use \"\" if nothing noticeable happened)" });
+  }
+  if (!Array.isArray(reply.operations)) {
+    issues.push({ path: "operations", message: "must be an array" });
+    return issues;
+  }
+
+  const reachable = reachableLocationIds(gkn, npc);
+  reply.operations.forEach((operation, index) => {
+    const op = operation as Record<string, unknown>;
+    const path = `operations[${index}]`;
+    if (op?.op === "setStoryFlag") {
+      return;
+    }
+    if (!["moveNpc", "updateNpcPlan", "setNpcDisposition"].includes(op?.op as string)) {
+      issues.push({ path, message: `operation ${JSON.stringify(op?.op)} is not allowed for an NPC agent` });
+    } else if (op.npcId !== npc.id) {
+      issues.push({ path, message: `you may only change yourself ("${npc.id}")` });
+    } else if (op.op === "moveNpc" && !reachable.includes(op.locationId as string)) {
+      issues.push({ path, message: `"${op.locationId}" is not reachable from where you are` });
+    }
+  });
+
+  const dryRun = applyStateOperations(gkn, reply.operations);
+  issues.push(...dryRun.rejected.map((rejection) => ({ path: `operations[${rejection.index}]`, message: rejection.reason })));
+  return issues;
+}
+
+/**
+ * Moves the world forward on its own: the countdown advances on a fixed rhythm, and each
+ * NPC with an active plan gets a focused agent call to take one step along it. Agents see
+ * the same starting world and run in parallel; their operations are then applied in turn.
+ * A failing agent is logged and skipped, so the tick never blocks the player's turn.
+ */
+export async function runWorldTick(gkn: Gkn, clock: WorldClock | undefined, turnNumber: number, provider: LlmProvider, prompts: Prompts, config: WorldTickConfig = getWorldTickConfig()): Promise<WorldTickResult> {
+  const ticks = (clock?.ticks ?? 0) + 1;
+  const nextClock: WorldClock = { ticks, lastTickTurn: turnNumber, lastTickAtMs: Date.now() };
+  const operations: StateOperation[] = [];
+  const events: WorldEvent[] = [];
+
+  const npcs = selectActiveNpcs(gkn, config.maxNpcAgents);
+  const replies = await Promise.all(npcs.map(async (npc) => {
+    try {
+      return await generateValidatedJson<NpcAgentReply>(
+        provider,
+        { purpose: "npc-agent", prompt: getNpcAgentPrompt(prompts, gkn, npc) },
+        (value) => validateNpcAgentReply(value, gkn, npc),
+        { maxRepairAttempts: 1 },
+      );
+    } catch (error) {
+      logger.warn(`NPC agent for ${npc.id} failed; skipping it this tick.`, error);
+      return undefined;
+    }
+  }));
+
+  let next = gkn;
+  replies.forEach((reply, index) => {
+    if (!reply) {
+      return;
+    }
+    const npc = npcs[index];
+    const result = applyStateOperations(next, reply.operations);
+    if (result.rejected.length > 0) {
+      logger.warn(`Some world tick operations for ${npc.id} were rejected.`, { rejected: result.rejected });
+    }
+    next = result.gkn;
+    operations.push(...result.applied);
+    if (reply.event.trim()) {
+      events.push({
+        kind: "npc",
+        npcId: npc.id,
+        fromLocationId: npc.locationId,
+        locationId: next.world.npcs[npc.id]?.locationId,
+        description: reply.event.trim(),
+      });
+    }
+  });
+
+  const countdown = next.world.fluidCountdown;
+  if (config.countdownEvery > 0 && ticks % config.countdownEvery === 0 && countdown.currentStage < countdown.stages.length - 1) {
+    const advance: StateOperation = { op: "advanceCountdown" };
+    const result = applyStateOperations(next, [advance]);
+    if (result.applied.length > 0) {
+      next = result.gkn;
+      operations.push(advance);
+      events.push({ kind: "countdown", description: next.world.fluidCountdown.stages[next.world.fluidCountdown.currentStage] });
+    }
+  }
+
+  logger.info(`World tick ${ticks} produced ${operations.length} operations and ${events.length} events.`);
+  return { gkn: next, operations, events, clock: nextClock };
+}
+
+/**
+ * The events the player is in a position to notice: anything that started or ended at
+ * their location, plus countdown shifts, which the GM may surface through their effects.
+ */
+export function observableEvents(gkn: Gkn, events: WorldEvent[]): WorldEvent[] {
+  const here = gkn.player.locationId;
+  return events.filter((event) => event.kind === "countdown" || event.locationId === here || event.fromLocationId === here);
+}
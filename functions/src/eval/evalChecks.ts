@@ -0,0 +1,165 @@
+// File: /src/eval/evalChecks.ts
+
+import { GameState } from "../types/gameState";
+import { RejectedOperation } from "../types/stateOps";
+import { ResolvedAction } from "../engine/actionResolver";
+import { validateGkn } from "../validation/gknValidator";
+
+type Gkn = GameState["gkn"];
+
+export interface CheckResult {
+  check: string;
+  passed: boolean;
+  /** Why it failed, or a note on why it was skipped. */
+  detail?: string;
+}
+
+/**
+ * What a playthrough step should lead to, checked after the turn. `resolved` is how the
+ * engine should settle the input: `success` or `failure`, or `gm` when it should leave
+ * it to the GM.
+ */
+export interface StepExpectation {
+  locationId?: string;
+  resolved?: "success" | "failure" | "gm";
+  /** Item IDs the player should be carrying afterwards. */
+  carrying?: string[];
+}
+
+/** Everything the checks can see about one turn. Turn 0 is the opening. */
+export interface TurnEvidence {
+  turnNumber: number;
+  narrative: string;
+  gknBefore?: Gkn;
+  gknAfter: Gkn;
+  rejected: RejectedOperation[];
+  resolvedAction?: ResolvedAction;
+  expect?: StepExpectation;
+  /** Names the rules do not apply to: the player and any NPC a scenario author wrote. */
+  exemptNames: string[];
+  bannedNames: string[];
+}
+
+// Ways the GM hands the player a menu instead of ending on the scene (master prompt, section IV).
+const NUDGING_PATTERNS = [
+  /what (do|will|would|should) you do( next| now)?\s*\?/i,
+  /what('s| is) your (next )?(move|plan|choice)\s*\?/i,
+  /the choice is yours/i,
+  /(do|would) you (like|want|wish) to\b[^.?!]*\?/i,
+  /\byou (could|can|might) (either )?\w+[^.?!]*,? or (you could )?\w+[^.?!]*\?/i,
+];
+
+/**
+ * Reads the banned NPC names from the master prompt's prohibition list, so the check
+ * always matches the prompt set under test.
+ */
+export function bannedNamesFromPrompt(masterPrompt: string): string[] {
+  const match = masterPrompt.match(/ABSOLUTE PROHIBITION:[^[]*\[([^\]]+)\]/);
+  return match ? match[1].split(",").map((name) => name.trim()).filter((name) => !!name) : [];
+}
+
+function checkValidGkn(turn: TurnEvidence): CheckResult {
+  const { issues } = validateGkn(turn.gknAfter);
+  return {
+    check: "state-invariants",
+    passed: issues.length === 0,
+    detail: issues.length > 0 ? issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ") : undefined,
+  };
+}
+
+function checkNoRejectedOperations(turn: TurnEvidence): CheckResult {
+  return {
+    check: "no-rejected-operations",
+    passed: turn.rejected.length === 0,
+    detail: turn.rejected.length > 0 ? turn.rejected.map((entry) => `#${entry.index} ${JSON.stringify(entry.operation)}: ${entry.reason}`).join("; ") : undefined,
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const wordPattern = (name: string, flags = "") => new RegExp(`\\b${escapeRegExp(name)}\\b`, flags);
+
+function checkBannedNames(turn: TurnEvidence): CheckResult {
+  if (turn.bannedNames.length === 0) {
+    return { check: "no-banned-names", passed: true, detail: "the prompt set has no prohibition list" };
+  }
+  const exempt = turn.exemptNames.join(" ");
+  const candidates = turn.bannedNames.filter((name) => !wordPattern(name, "i").test(exempt));
+  const inWorld = Object.values(turn.gknAfter.world.npcs)
+    .flatMap((npc) => candidates.filter((name) => wordPattern(name, "i").test(npc.name)).map((name) => `NPC '${npc.name}' uses ${name}`));
+  // In prose only the capitalised form counts, so "finch" the bird is fine.
+  const inNarrative = candidates
+    .filter((name) => wordPattern(name).test(turn.narrative))
+    .map((name) => `narrative mentions ${name}`);
+  const found = [...inWorld, ...inNarrative];
+  return { check: "no-banned-names", passed: found.length === 0, detail: found.length > 0 ? found.join("; ") : undefined };
+}
+
+function checkNoNudging(turn: TurnEvidence): CheckResult {
+  const match = NUDGING_PATTERNS.map((pattern) => turn.narrative.match(pattern)).find((result) => !!result);
+  return { check: "no-nudging", passed: !match, detail: match ? `"${match[0]}"` : undefined };
+}
+
+/**
+ * A move is only legal through an exit that was open before the turn or that was
+ * unlocked during it. Moves between unconnected locations are flagged too.
+ */
+function checkLockedExits(turn: TurnEvidence): CheckResult {
+  const before = turn.gknBefore;
+  if (!before || before.player.locationId === turn.gknAfter.player.locationId) {
+    return { check: "locked-exits-respected", passed: true };
+  }
+  const from = before.player.locationId;
+  const to = turn.gknAfter.player.locationId;
+  const exits = Object.entries(before.world.locations[from]?.exits ?? {}).filter(([, exit]) => exit.toLocationId === to);
+  if (exits.length === 0) {
+    return { check: "locked-exits-respected", passed: false, detail: `player moved from ${from} to ${to}, which no exit connects` };
+  }
+  const passable = exits.some(([direction, exit]) => !exit.isLocked || !turn.gknAfter.world.locations[from]?.exits[direction]?.isLocked);
+  return {
+    check: "locked-exits-respected",
+    passed: passable,
+    detail: passable ? undefined : `player went ${exits.map(([direction]) => direction).join("/")} from ${from} through a locked exit`,
+  };
+}
+
+function checkCountdownMonotonic(turn: TurnEvidence): CheckResult {
+  if (!turn.gknBefore) {
+    return { check: "countdown-monotonic", passed: true };
+  }
+  const before = turn.gknBefore.world.fluidCountdown.currentStage;
+  const after = turn.gknAfter.world.fluidCountdown.currentStage;
+  return {
+    check: "countdown-monotonic",
+    passed: after >= before,
+    detail: after < before ? `countdown went back from stage ${before} to ${after}` : undefined,
+  };
+}
+
+function checkExpectations(turn: TurnEvidence): CheckResult {
+  const expect = turn.expect;
+  if (!expect) {
+    return { check: "step-expectations", passed: true, detail: "the step sets no expectations" };
+  }
+  const failures: string[] = [];
+  const locationId = turn.gknAfter.player.locationId;
+  if (expect.locationId !== undefined && locationId !== expect.locationId) {
+    failures.push(`player is in ${locationId}, expected ${expect.locationId}`);
+  }
+  if (expect.resolved !== undefined) {
+    const resolved = !turn.resolvedAction ? "gm" : turn.resolvedAction.success ? "success" : "failure";
+    if (resolved !== expect.resolved) {
+      failures.push(`input was settled as ${resolved}, expected ${expect.resolved}${turn.resolvedAction ? ` (${turn.resolvedAction.outcome})` : ""}`);
+    }
+  }
+  const missing = (expect.carrying ?? []).filter((itemId) => !turn.gknAfter.player.inventory.includes(itemId));
+  if (missing.length > 0) {
+    failures.push(`player is not carrying ${missing.join(", ")}`);
+  }
+  return { check: "step-expectations", passed: failures.length === 0, detail: failures.length > 0 ? failures.join("; ") : undefined };
+}
+
+const CHECKS = [checkValidGkn, checkNoRejectedOperations, checkBannedNames, checkNoNudging, checkLockedExits, checkCountdownMonotonic, checkExpectations];
+
+export function runTurnChecks(turn: TurnEvidence): CheckResult[] {
+  return CHECKS.map((check) => check(turn));
+}
@@ -0,0 +1,114 @@
+// File: /src/eval/evalReport.ts
+
+import { PlaythroughResult } from "./playthroughRunner";
+
+export interface EvalReport {
+  generatedAt: string;
+  model: { provider: string; name: string };
+  promptSet: string;
+  summary: {
+    playthroughs: number;
+    failedPlaythroughs: number;
+    turns: number;
+    checks: number;
+    failedChecks: number;
+    /** Failures per check name, so a regression in one rule stands out. */
+    failuresByCheck: Record<string, number>;
+    averageLatencyMs: number;
+  };
+  playthroughs: PlaythroughResult[];
+}
+
+export function buildEvalReport(results: PlaythroughResult[], model: EvalReport["model"], promptSet: string): EvalReport {
+  const turns = results.flatMap((result) => result.turns);
+  const checks = turns.flatMap((turn) => turn.checks);
+  const failuresByCheck: Record<string, number> = {};
+  checks.filter((check) => !check.passed).forEach((check) => {
+    failuresByCheck[check.check] = (failuresByCheck[check.check] ?? 0) + 1;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    model,
+    promptSet,
+    summary: {
+      playthroughs: results.length,
+      failedPlaythroughs: results.filter((result) => result.error || result.turns.some((turn) => turn.checks.some((check) => !check.passed))).length,
+      turns: turns.length,
+      checks: checks.length,
+      failedChecks: checks.filter((check) => !check.passed).length,
+      failuresByCheck,
+      averageLatencyMs: turns.length > 0 ? Math.round(turns.reduce((sum, turn) => sum + turn.latencyMs, 0) / turns.length) : 0,
+    },
+    playthroughs: results,
+  };
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+/**
+ * A single self-contained page: the summary, then every turn with its failed checks
+ * highlighted. Meant to be opened straight from disk or attached to a CI run.
+ */
+export function renderEvalReportHtml(report: EvalReport): string {
+  const { summary } = report;
+  const failureRows = Object.entries(summary.failuresByCheck)
+    .map(([check, count]) => `<tr><td>${escapeHtml(check)}</td><td>${count}</td></tr>`)
+    .join("");
+
+  const playthroughs = report.playthroughs.map((result) => {
+    const rows = result.turns.map((turn) => {
+      const failed = turn.checks.filter((check) => !check.passed);
+      const checks = failed.length === 0
+        ? `<span class="pass">all ${turn.checks.length} passed</span>`
+        : failed.map((check) => `<div class="fail">${escapeHtml(check.check)}${check.detail ? `: ${escapeHtml(check.detail)}` : ""}</div>`).join("");
+      return `<tr class="${failed.length > 0 ? "failed" : ""}">
+  <td>${turn.turnNumber}</td>
+  <td>${escapeHtml(turn.playerInput || "(opening)")}</td>
+  <td class="narrative">${escapeHtml(turn.narrative)}</td>
+  <td>${turn.latencyMs} ms</td>
+  <td>${checks}</td>
+</tr>`;
+    }).join("\n");
+    return `<section>
+<h2>${escapeHtml(result.title || result.id)}</h2>
+${result.error ? `<p class="fail">${escapeHtml(result.error)}</p>` : ""}
+${result.ending ? `<p>Story ended at turn ${result.ending.turnNumber} (${escapeHtml(result.ending.outcome)}): ${escapeHtml(result.ending.summary)}</p>` : ""}
+<table>
+<thead><tr><th>Turn</th><th>Input</th><th>Narrative</th><th>Latency</th><th>Checks</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>GM eval: ${escapeHtml(report.model.provider)}/${escapeHtml(report.model.name)}, prompt set ${escapeHtml(report.promptSet)}</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+  th, td { border: 1px solid #ccc; padding: 0.4em; vertical-align: top; text-align: left; }
+  tr.failed { background: #fff0f0; }
+  .narrative { white-space: pre-wrap; max-width: 40em; }
+  .pass { color: #176f2c; }
+  .fail { color: #b00020; }
+</style>
+</head>
+<body>
+<h1>GM eval report</h1>
+<p>Model ${escapeHtml(report.model.provider)}/${escapeHtml(report.model.name)}, prompt set <b>${escapeHtml(report.promptSet)}</b>, generated ${escapeHtml(report.generatedAt)}.</p>
+<p>${summary.playthroughs} playthroughs (${summary.failedPlaythroughs} with failures), ${summary.turns} turns, ${summary.failedChecks} of ${summary.checks} checks failed, average latency ${summary.averageLatencyMs} ms.</p>
+${failureRows ? `<table><thead><tr><th>Check</th><th>Failures</th></tr></thead><tbody>${failureRows}</tbody></table>` : ""}
+${playthroughs}
+</body>
+</html>
+`;
+}
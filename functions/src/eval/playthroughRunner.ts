@@ -0,0 +1,137 @@
+// File: /src/eval/playthroughRunner.ts
+
+import { GameState, StoryGenre } from "../types/gameState";
+import { RejectedOperation } from "../types/stateOps";
+import { TurnRecord } from "../types/turnRecord";
+import { WorldClock } from "../types/worldEvent";
+import { LlmProvider } from "../llm/provider";
+import { Prompts } from "../prompts/promptRegistry";
+import { generateStoryWorld, runTurn } from "../engine/gameLoop";
+import { historyFromTurns } from "../context/storyMemory";
+import { prepareScenario } from "../scenarios/scenarioLoader";
+import { ResolvedAction } from "../engine/actionResolver";
+import { bannedNamesFromPrompt, CheckResult, runTurnChecks, StepExpectation } from "./evalChecks";
+
+/** One scripted input and, optionally, what it should lead to. */
+export interface PlaythroughStep {
+  input: string;
+  expect?: StepExpectation;
+}
+
+/**
+ * A scripted game for the eval harness: either a seed and genre for the model to build
+ * a world from, or a scenario (already parsed), followed by the player's inputs in order.
+ * An input is a plain string or a step with expectations.
+ */
+export interface Playthrough {
+  id: string;
+  title?: string;
+  seed?: string;
+  genre?: StoryGenre;
+  playerName?: string;
+  scenario?: unknown;
+  inputs: (string | PlaythroughStep)[];
+}
+
+export interface EvaluatedTurn {
+  turnNumber: number;
+  playerInput: string;
+  narrative: string;
+  latencyMs: number;
+  checks: CheckResult[];
+}
+
+export interface PlaythroughResult {
+  id: string;
+  title?: string;
+  /** Set when the playthrough could not start or a turn's reply never validated. */
+  error?: string;
+  /** Set when the GM ended the story; any inputs left after that are not played. */
+  ending?: { outcome: string, summary: string, turnNumber: number };
+  turns: EvaluatedTurn[];
+}
+
+// Model errors can quote whole replies; the report only needs the gist.
+const MAX_DETAIL_LENGTH = 200;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Plays a scripted game entirely in memory and runs every check on each turn. A turn whose
+ * GM reply never validates is recorded as a failed `gm-reply-valid` check and ends the
+ * playthrough, since later inputs assume the world moved on. So does a story the GM ends.
+ */
+export async function runPlaythrough(playthrough: Playthrough, options: { provider: LlmProvider, prompts: Prompts }): Promise<PlaythroughResult> {
+  const result: PlaythroughResult = { id: playthrough.id, title: playthrough.title, turns: [] };
+  const bannedNames = bannedNamesFromPrompt(options.prompts.render("master", {}, playthrough.genre));
+
+  let gkn: GameState["gkn"];
+  let initialHook: string;
+  const exemptNames: string[] = [];
+  const openingStartedAt = Date.now();
+  try {
+    if (playthrough.scenario !== undefined) {
+      const prepared = await prepareScenario(playthrough.scenario, { playerName: playthrough.playerName, ...options });
+      gkn = prepared.gkn;
+      initialHook = prepared.initialHook;
+      // Authored names are the writer's choice; the prohibition covers invented ones.
+      exemptNames.push(...Object.values(gkn.world.npcs).map((npc) => npc.name));
+    } else {
+      if (!playthrough.seed || !playthrough.genre) {
+        throw new Error("A playthrough needs either a 'scenario' or a 'seed' and 'genre'.");
+      }
+      ({ gkn, initialHook } = await generateStoryWorld(playthrough.seed, playthrough.genre, playthrough.playerName || "Kaelen", options));
+    }
+  } catch (error) {
+    result.error = `Opening failed: ${errorMessage(error)}`;
+    return result;
+  }
+  exemptNames.push(gkn.player.name);
+
+  const evaluate = (
+    turnNumber: number, playerInput: string, narrative: string, latencyMs: number, gknAfter: GameState["gkn"],
+    gknBefore?: GameState["gkn"], rejected: RejectedOperation[] = [], resolvedAction?: ResolvedAction, expect?: StepExpectation,
+  ) => {
+    result.turns.push({
+      turnNumber,
+      playerInput,
+      narrative,
+      latencyMs,
+      checks: runTurnChecks({ turnNumber, narrative, gknBefore, gknAfter, rejected, resolvedAction, expect, exemptNames, bannedNames }),
+    });
+  };
+  evaluate(0, "", initialHook, Date.now() - openingStartedAt, gkn);
+
+  const turns: Pick<TurnRecord, "turnNumber" | "playerInput" | "narrative" | "memory">[] = [
+    { turnNumber: 0, playerInput: "", narrative: initialHook },
+  ];
+  let worldClock: WorldClock | undefined;
+
+  for (const step of playthrough.inputs) {
+    const { input: playerInput, expect }: PlaythroughStep = typeof step === "string" ? { input: step } : step;
+    const startedAt = Date.now();
+    try {
+      const outcome = await runTurn({ gkn, worldClock, history: historyFromTurns(turns) }, playerInput, options);
+      evaluate(outcome.turnNumber, playerInput, outcome.narrative, Date.now() - startedAt, outcome.gknAfter, gkn, outcome.rejected, outcome.resolvedAction, expect);
+      turns.push({ turnNumber: outcome.turnNumber, playerInput, narrative: outcome.narrative, memory: outcome.memory });
+      gkn = outcome.gknAfter;
+      worldClock = outcome.worldClock ?? worldClock;
+      if (gkn.ending) {
+        result.ending = { ...gkn.ending, turnNumber: outcome.turnNumber };
+        break;
+      }
+    } catch (error) {
+      result.turns.push({
+        turnNumber: gkn.turnCount + 1,
+        playerInput,
+        narrative: "",
+        latencyMs: Date.now() - startedAt,
+        checks: [{ check: "gm-reply-valid", passed: false, detail: errorMessage(error).slice(0, MAX_DETAIL_LENGTH) }],
+      });
+      result.error = `Turn ${gkn.turnCount + 1} failed: ${errorMessage(error)}`;
+      break;
+    }
+  }
+
+  return result;
+}
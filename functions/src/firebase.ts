@@ -0,0 +1,20 @@
+// File: /src/firebase.ts
+
+import * as admin from "firebase-admin";
+
+// --- Initialization ---
+// This simplified initialization works for both emulator and deployed environments.
+admin.initializeApp();
+export const db = admin.firestore();
+export const adminAuth = admin.auth();
+// Optional fields (e.g. a createItem operation without a locationId) are simply left out.
+db.settings({ ignoreUndefinedProperties: true });
+
+export const SESSIONS_COLLECTION = "game_sessions";
+export const TURNS_SUBCOLLECTION = "turns";
+export const TURN_REQUESTS_SUBCOLLECTION = "turn_requests";
+export const SESSION_VIEWS_COLLECTION = "session_views";
+export const PROMPT_TEMPLATES_COLLECTION = "prompt_templates";
+export const PROMPT_SETS_COLLECTION = "prompt_sets";
+export const USER_USAGE_COLLECTION = "user_usage";
+export const USAGE_DAYS_SUBCOLLECTION = "days";
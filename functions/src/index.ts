@@ -1,31 +1,45 @@
-import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { onCall, onRequest, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
-import * as admin from "firebase-admin";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { GameState, StoryGenre } from "./types/gameState";
-
-// --- Initialization ---
-// This simplified initialization works for both emulator and deployed environments.
-admin.initializeApp();
-const db = admin.firestore();
-
-// --- Gemini AI Setup ---
-// We will get the key from environment variables, which we'll set for the deployment.
-const GEMINI_API_KEY = process.env.GEMINI_KEY;
-if (!GEMINI_API_KEY) {
-  // This check is important for local testing.
-  // In deployment, the key will be set in the function's environment.
-  logger.warn("GEMINI_KEY not found in local process.env. This is expected for deployment, but required for local testing.");
-}
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY || "");
+import { getLlmProvider } from "./llm";
+import { ModelOutputError } from "./llm/structuredOutput";
+import { meterUsage, totalUsage } from "./llm/usageMeter";
+import { TurnRecord, TurnResult } from "./types/turnRecord";
+import { LlmCallUsage } from "./types/usage";
+import { AuthContext, callerFor, loadSessionForUser, requireCaller, verifyBearerToken, withoutClientToken } from "./sessions/sessionAccess";
+import { parseOocCommand, runOocCommand } from "./ooc/oocCommands";
+import { forkSessionLogic, getTranscriptLogic, rewindSessionLogic } from "./sessions/turnHistory";
+import { saveNewSession } from "./sessions/createSession";
+import { parseScenarioText, PreparedScenario, prepareScenario, ScenarioValidationError } from "./scenarios/scenarioLoader";
+import { acquireTurnLease, commitLeasedTurns, releaseTurnLease } from "./sessions/turnLease";
+import { runScheduledWorldTicks } from "./sessions/scheduledWorldTick";
+import { abandonSessionLogic } from "./sessions/sessionStatus";
+import { syncSessionView } from "./sessions/sessionView";
+import { deleteSessionLogic, listMySessionsLogic } from "./sessions/mySessions";
+import { joinSessionLogic, openSessionLogic } from "./sessions/multiplayer";
+import { exportSessionLogic, importSessionLogic } from "./sessions/storyBundle";
+import { SESSIONS_COLLECTION } from "./firebase";
+import { recordUnsavedUsage } from "./usage/usageLedger";
+import { getUsageReportLogic } from "./usage/usageReport";
+import { generateStoryWorld, runTurn, TurnInput } from "./engine/gameLoop";
+import { focusCharacter, withParty } from "./engine/party";
+import { getContextConfig } from "./context/contextBuilder";
+import { choosePromptSet, DEFAULT_PROMPT_SET, loadPrompts, Prompts } from "./prompts/promptRegistry";
+import { appendExchange, loadStoryHistory } from "./context/storyMemory";
+
+// --- LLM Provider Setup ---
+// The provider is chosen by LLM_PROVIDER (gemini, openai or mock). See src/llm/index.ts.
 
 
 // ==========================================================================================
 // CREATE NEW STORY LOGIC
 // ==========================================================================================
-async function generateStoryLogic(data: { seed: string, genre: StoryGenre, playerName?: string }, auth?: { uid: string }) {
+export async function generateStoryLogic(data: { seed: string, genre: StoryGenre, playerName?: string }, auth?: AuthContext) {
   const { seed, genre, playerName } = data;
   logger.info("Executing generateStoryLogic", { seed, genre });
+  const owner = requireCaller(auth);
 
   if (!seed || !genre) {
     throw new HttpsError("invalid-argument", "The function must be called with a 'seed' and 'genre'.");
@@ -33,268 +47,428 @@ async function generateStoryLogic(data: { seed: string, genre: StoryGenre, playe
 
   let gknForDb: GameState["gkn"];
   let initialHook: string;
+  let prompts: Prompts;
+  const { provider, calls } = meterUsage(getLlmProvider());
+  const startedAt = Date.now();
 
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" });
-    const prompt = getStoryGeneratorPrompt(seed, genre, playerName || "Kaelen");
-    logger.info("Sending prompt to Gemini for GKN-0 and Hook generation.");
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
-    logger.info("Raw Gemini Response:", { text: responseText });
-    
-    const cleanedJson = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-    const responseObject = JSON.parse(cleanedJson);
-
-    if (!responseObject.gkn || !responseObject.initialHook) {
-        throw new Error("Invalid response structure from world-builder agent. Missing 'gkn' or 'initialHook'.");
-    }
+    prompts = await loadPrompts(choosePromptSet());
+    const responseObject = await generateStoryWorld(seed, genre, playerName || "Kaelen", { provider, prompts });
 
     gknForDb = responseObject.gkn;
     initialHook = responseObject.initialHook;
 
-    logger.info("Successfully parsed GKN and initial hook from Gemini response.");
+    logger.info("Successfully parsed GKN and initial hook from model response.");
 
   } catch (error) {
-    logger.error("Error generating or parsing response from Gemini:", error);
+    logger.error("Error generating or parsing response from model:", error);
+    await recordUnsavedUsage(undefined, owner.uid, totalUsage(calls));
+    if (error instanceof ModelOutputError) {
+      throw new HttpsError("internal", "Failed to generate a valid story world.", { issues: error.issues, attempts: error.attempts });
+    }
     throw new HttpsError("internal", "Failed to generate story world.", error);
   }
 
-  let sessionId: string;
-  try {
-    const newSessionRef = db.collection("game_sessions").doc();
-    sessionId = newSessionRef.id;
-
-    const newSession: GameState = {
-      sessionId: sessionId,
-      userId: auth?.uid || "anonymous",
-      initialHook: initialHook,
-      gkn: gknForDb,
-      lastModified: new Date(),
-    };
-    
-    await newSessionRef.set(newSession);
-    logger.info(`New game session created with ID: ${sessionId}`);
+  const sessionId = await saveNewSession({
+    gkn: gknForDb,
+    initialHook,
+    owner,
+    model: { provider: provider.name, name: provider.model },
+    promptSet: prompts.setId,
+    latencyMs: Date.now() - startedAt,
+    llmCalls: calls,
+  });
+
+  return { sessionId, initialHook, turnNumber: 0 };
+}
+
+// Added CallableRequest type to fix linting error
+export const createNewStory = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to create new story", { requestData: withoutClientToken(request.data) });
+    return await generateStoryLogic(request.data, callerFor(request.auth, request.data));
+});
 
+// ==========================================================================================
+// CREATE STORY FROM SCENARIO LOGIC
+// ==========================================================================================
+/**
+ * Starts a session from an authored scenario (see src/scenarios/scenarioLoader.ts) instead of
+ * a generated world. `scenario` is either the parsed object or the raw JSON/YAML text.
+ */
+export async function createStoryFromScenarioLogic(data: { scenario: unknown, playerName?: string, fillGaps?: boolean }, auth?: AuthContext) {
+  if (data?.scenario === undefined || data.scenario === null) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'scenario'.");
+  }
+  const owner = requireCaller(auth);
+
+  const { provider, calls } = meterUsage(getLlmProvider());
+  const startedAt = Date.now();
+  let prepared: PreparedScenario;
+  let prompts: Prompts;
+
+  try {
+    prompts = await loadPrompts(choosePromptSet());
+    const raw = typeof data.scenario === "string" ? parseScenarioText(data.scenario) : data.scenario;
+    prepared = await prepareScenario(raw, { fillGaps: data.fillGaps, playerName: data.playerName, provider, prompts });
   } catch (error) {
-    logger.error("Error saving new game session to Firestore:", error);
-    throw new HttpsError("internal", "Failed to save new game session.", error);
+    await recordUnsavedUsage(undefined, owner.uid, totalUsage(calls));
+    if (error instanceof ScenarioValidationError) {
+      throw new HttpsError("invalid-argument", error.message, { issues: error.issues });
+    }
+    if (error instanceof ModelOutputError) {
+      throw new HttpsError("internal", "Failed to fill the gaps in this scenario.", { issues: error.issues, attempts: error.attempts });
+    }
+    if (error instanceof SyntaxError || (error as Error)?.name === "YAMLParseError") {
+      throw new HttpsError("invalid-argument", `The scenario could not be parsed: ${(error as Error).message}`);
+    }
+    logger.error("Error preparing scenario:", error);
+    throw new HttpsError("internal", "Failed to load scenario.", error);
   }
 
-  return { sessionId, initialHook };
+  logger.info(`Starting session from scenario '${prepared.reference.id}'.`, { filledGaps: prepared.filledGaps });
+  const sessionId = await saveNewSession({
+    gkn: prepared.gkn,
+    initialHook: prepared.initialHook,
+    owner,
+    model: { provider: prepared.filledGaps.length > 0 ? provider.name : "scenario", name: prepared.filledGaps.length > 0 ? provider.model : prepared.reference.id },
+    promptSet: prompts.setId,
+    latencyMs: Date.now() - startedAt,
+    llmCalls: calls,
+    extra: { scenario: prepared.reference },
+  });
+
+  return { sessionId, initialHook: prepared.initialHook, turnNumber: 0, scenario: prepared.reference };
 }
 
-// Added CallableRequest type to fix linting error
-export const createNewStory = onCall(async (request: CallableRequest) => {
-    logger.info("Received request to create new story", { requestData: request.data });
-    return await generateStoryLogic(request.data, request.auth);
+export const createStoryFromScenario = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to create story from scenario", { fillGaps: request.data?.fillGaps });
+    return await createStoryFromScenarioLogic(request.data, callerFor(request.auth, request.data));
 });
 
 
 // ==========================================================================================
 // PROCESS PLAYER TURN LOGIC
 // ==========================================================================================
-async function processPlayerTurnLogic(data: { sessionId: string, playerInput: string }, auth?: { uid: string }) {
-  const { sessionId, playerInput } = data;
-  logger.info(`Processing turn for session ${sessionId}`, { playerInput });
+/**
+ * Runs one player turn. When `onNarrative` is given, the GM's narrative is passed to it
+ * as it streams in; the returned narrative is still the authoritative, committed one.
+ *
+ * Turns are serialised per session by a lease (see sessions/turnLease.ts). Clients should
+ * send `expectedTurn` (the turn number they last saw) and a fresh `requestId` per action,
+ * reusing it when retrying so a retry returns the original result instead of a new turn.
+ * In a shared world the turn mode decides whether the action plays now, is refused
+ * (not your turn) or waits for the rest of the party (see sessions/multiplayer.ts).
+ */
+export async function processPlayerTurnLogic(
+  data: { sessionId: string, playerInput: string, requestId?: string, expectedTurn?: number },
+  auth?: AuthContext,
+  onNarrative?: (text: string) => void,
+): Promise<TurnResult> {
+  const { sessionId, playerInput, requestId, expectedTurn } = data;
+  logger.info(`Processing turn for session ${sessionId}`, { playerInput, requestId, expectedTurn });
 
   if (!sessionId || !playerInput) {
     throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId' and 'playerInput'.");
   }
-
-  const sessionRef = db.collection("game_sessions").doc(sessionId);
-  const sessionDoc = await sessionRef.get();
-
-  if (!sessionDoc.exists) {
-    throw new HttpsError("not-found", `Game session with ID ${sessionId} not found.`);
+  if (expectedTurn !== undefined && (typeof expectedTurn !== "number" || !Number.isInteger(expectedTurn))) {
+    throw new HttpsError("invalid-argument", "'expectedTurn' must be an integer.");
   }
-  
-  const gameSession = sessionDoc.data() as GameState;
 
-  if (gameSession.userId !== 'anonymous' && gameSession.userId !== auth?.uid) {
-    throw new HttpsError("permission-denied", "You do not have permission to access this game session.");
-  }
-  
-  if (playerInput.startsWith("[") && playerInput.endsWith("]")) {
-      logger.info("OOC command detected. Returning current GKN.");
-      const gknString = JSON.stringify(gameSession.gkn, null, 2);
+  const oocCommand = parseOocCommand(playerInput);
+  if (oocCommand) {
+      const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+      // In a shared world, [inventory], [status] and the like describe the caller's character.
+      const member = gameSession.multiplayer?.members.find((entry) => entry.uid === auth?.uid);
+      if (member && gameSession.multiplayer) {
+          gameSession.gkn = focusCharacter(withParty(gameSession.gkn, gameSession.multiplayer.members), member.characterId);
+      }
+      const narrative = await runOocCommand(oocCommand, { sessionId, sessionRef, gameSession, auth });
+      // Commands like [undo] and [quit] move the session, so report where it is now.
+      const after = (await sessionRef.get()).data() as GameState;
       return {
-          narrative: `--- OOC GKN State Inspector ---\n\n${gknString}`
+          narrative,
+          ooc: true,
+          turnNumber: after.gkn.turnCount,
+          ...(after.ending ? { ending: after.ending } : {}),
       };
   }
 
-  const currentGkn = gameSession.gkn;
-  
-  let narrativeResponse: string;
-  let updatedGkn: GameState["gkn"];
+  const lease = await acquireTurnLease(sessionId, auth, { playerInput, requestId, expectedTurn });
+  if (lease.kind === "replayed") {
+    return lease.result;
+  }
+  if (lease.kind === "waiting") {
+    return {
+      narrative: `Your action is in. Waiting for ${lease.waitingFor.join(", ")} before the story moves on.`,
+      turnNumber: lease.turnNumber,
+      waiting: true,
+    };
+  }
+  const { sessionRef, gameSession } = lease;
 
+  // A session keeps the prompt set it was assigned, so old sessions play as they always did.
+  let prompts: Prompts;
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" });
-    const gmPrompt = getGameMasterPrompt(currentGkn, playerInput);
-    logger.info("Sending GM prompt to Gemini.");
-    
-    const result = await model.generateContent(gmPrompt);
-    const responseText = result.response.text();
-    logger.info("Raw GM Response:", { text: responseText });
-
-    const cleanedJson = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-    const responseObject = JSON.parse(cleanedJson);
-
-    if (!responseObject.narrative || !responseObject.updatedGkn) {
-        throw new Error("Invalid response structure from GM agent. Missing 'narrative' or 'updatedGkn'.");
-    }
+    prompts = await loadPrompts(gameSession.promptSet ?? DEFAULT_PROMPT_SET);
+  } catch (error) {
+    logger.error(`Could not load prompt set for session ${sessionId}.`, error);
+    await releaseTurnLease(sessionRef, lease.requestId);
+    throw new HttpsError("failed-precondition", `This session's prompt set '${gameSession.promptSet}' is not available.`);
+  }
 
-    narrativeResponse = responseObject.narrative;
-    updatedGkn = responseObject.updatedGkn;
-    logger.info("Successfully parsed GM response.");
+  const baseProvider = getLlmProvider();
+  const entries: { turn: TurnRecord, requestId: string, uid?: string }[] = [];
+  const meters: { uid?: string, calls: LlmCallUsage[] }[] = [];
+  // Model calls cost the same whether or not the turn is saved.
+  const recordUnsaved = async () => {
+    for (const meter of meters) {
+      await recordUnsavedUsage(sessionRef, meter.uid, totalUsage(meter.calls));
+    }
+  };
+  let worldClock = gameSession.worldClock;
 
+  // Usually one action; a collect-all round plays every member's action in turn order,
+  // each on top of the last, and they are committed together.
+  try {
+    let state: TurnInput = {
+      gkn: gameSession.gkn,
+      worldClock: gameSession.worldClock,
+      pendingWorldEvents: gameSession.pendingWorldEvents,
+      history: await loadStoryHistory(sessionRef, getContextConfig()),
+    };
+    for (const action of lease.actions) {
+      const startedAt = Date.now();
+      // Each action is metered on its own, so its usage goes to the player who sent it.
+      const uid = action.member?.uid ?? auth?.uid;
+      const { provider, calls } = meterUsage(baseProvider);
+      meters.push({ uid, calls });
+      const gkn = action.member && gameSession.multiplayer
+        ? focusCharacter(withParty(state.gkn, gameSession.multiplayer.members), action.member.characterId)
+        : state.gkn;
+      const outcome = await runTurn(
+        { ...state, gkn },
+        action.playerInput,
+        { provider, prompts, onNarrative: action.requestId === lease.requestId ? onNarrative : undefined },
+      );
+      const actor = action.member?.characterName;
+      worldClock = outcome.worldClock ?? worldClock;
+      entries.push({
+        requestId: action.requestId,
+        uid,
+        turn: {
+          turnNumber: outcome.turnNumber,
+          playerInput: action.playerInput,
+          narrative: outcome.narrative,
+          ...(actor ? { actor } : {}),
+          operations: outcome.operations,
+          worldEvents: outcome.worldEvents,
+          gknAfter: outcome.gknAfter,
+          memory: outcome.memory,
+          worldClock,
+          model: { provider: provider.name, name: provider.model },
+          promptSet: prompts.setId,
+          latencyMs: Date.now() - startedAt,
+          llmCalls: calls,
+          usage: totalUsage(calls),
+          createdAt: new Date(),
+        },
+      });
+      if (outcome.gknAfter.ending) {
+        break;
+      }
+      state = {
+        gkn: outcome.gknAfter,
+        worldClock,
+        pendingWorldEvents: [],
+        history: appendExchange(state.history, outcome.memory, { turnNumber: outcome.turnNumber, playerInput: action.playerInput, narrative: outcome.narrative, actor }),
+      };
+    }
   } catch (error) {
-    logger.error("Error processing turn with Gemini:", error);
+    // Nothing is persisted here, so the stored world is untouched by a bad reply.
+    logger.error("Error processing turn with model:", error instanceof ModelOutputError ? { message: error.message, issues: error.issues } : error);
+    await releaseTurnLease(sessionRef, lease.requestId);
+    await recordUnsaved();
     return {
       narrative: "A strange energy flickers in the air, and your action seems to have no effect. The world remains as it was. (The game's AI encountered an error.)",
+      turnNumber: gameSession.gkn.turnCount,
     };
   }
-  
+
+  let results: TurnResult[];
   try {
-    updatedGkn.turnCount = (currentGkn.turnCount || 0) + 1;
-    await sessionRef.update({ 
-      gkn: updatedGkn, 
-      lastModified: new Date() 
+    results = await commitLeasedTurns(sessionRef, lease.requestId, entries, {
+      pendingWorldEvents: [],
+      ...(worldClock ? { worldClock } : {}),
     });
-    logger.info(`Successfully updated game session ${sessionId}`);
+    logger.info(`Successfully updated game session ${sessionId}`, { turns: results.length, ending: results[0].ending?.status });
   } catch (error) {
     logger.error(`Error saving updated game state for session ${sessionId}:`, error);
+    await releaseTurnLease(sessionRef, lease.requestId);
+    await recordUnsaved();
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError("internal", "Failed to save the updated game state.");
   }
 
-  return {
-    narrative: narrativeResponse,
-  };
+  // If the story ended before the caller's action came up, they get the last turn played.
+  const own = entries.findIndex((entry) => entry.requestId === lease.requestId);
+  return results[own >= 0 ? own : results.length - 1];
 }
 
 // Added CallableRequest type to fix linting error
 export const processPlayerTurn = onCall(async (request: CallableRequest) => {
-    logger.info("Received request to process player turn", { requestData: request.data });
-    return await processPlayerTurnLogic(request.data, request.auth);
+    logger.info("Received request to process player turn", { requestData: withoutClientToken(request.data) });
+    return await processPlayerTurnLogic(request.data, callerFor(request.auth, request.data));
 });
 
 
 // ==========================================================================================
-// PROMPT ENGINEERING HELPERS (These are unchanged)
+// STREAMING PLAYER TURN
 // ==========================================================================================
+// An HTTP endpoint rather than a callable, so the narrative can be sent as server-sent events:
+//   event: narrative  data: { text }                 (zero or more, as the GM writes)
+//   event: done       data: { narrative, turnNumber?, ooc?, ending? }  (the committed result; replaces the streamed text)
+//   event: error      data: { code, message, details? }  (nothing was saved; discard the streamed text)
+// The state is only written after the full reply has been validated, so a stream that
+// dies halfway never leaves a half-written turn behind.
+export const processPlayerTurnStream = onRequest({ cors: true }, async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Use POST." });
+      return;
+    }
 
-const MASTER_PROMPT_V11 = `
-### **Gemini Storyteller Master Prompt V11 (Consolidated)**
-**I. Core Identity & Mission:**
-You are Gemini, the Grand Weaver of Worlds, a sophisticated and collaborative role-play storyteller. Your primary mission is to co-create with the User (Player) an immersive, engaging, and surprising interactive narrative. You will achieve this by maintaining a dynamic world with independent momentum, ensuring natural pacing, and focusing on strong, believable characters. You must proactively advance the underlying plot through world events and NPC actions, while maximizing Player agency. Player choices must have meaningful, cascading consequences, and the narrative lead may shift dynamically between the Player Character and capable Key NPCs.
-* **Crucial Directive on PC Fate & Consequences:** Your ultimate mission is to create a believable and consequence-driven narrative. This explicitly means that Player Character death, permanent incapacitation, or profound, unrecoverable failure is a valid, intended, and often necessary narrative outcome when logically warranted by PC choices, world events, or reckless action. You are strictly forbidden from introducing 'plot armor' or narrative contrivances to prolong the PC's story beyond its logical and earned conclusion. The player's journey can and should be brief and brutal if their choices dictate it. Prioritize the integrity of consequences over narrative length.
-    * **Genre-Specific Application:** This directive must be viewed through the lens of the chosen genre.
-        * **In Adventure, Action, or High Fantasy:** The priority is "The Rule of Cool." A risky, daring, or seemingly impossible action that is genre-appropriate should be allowed to succeed, or fail spectacularly in a non-fatal way that advances the story. Consequences should be setbacks (capture, losing an item, temporary injury), not realistic death from a stunt. You are forbidden from using realism to block a fun, genre-appropriate action.
-        * **In Horror, Gritty Realism, or Survival:** The "Real Consequences" protocol remains in full effect. Actions have severe, often terminal, consequences based on a realistic assessment of risk. Plot armor is non-existent.
-**II. The GKN Engine: The Secret Story Blueprint**
-You operate with a secret story blueprint, your "Geheime Keeper-Notizen" (GKN), an evolving framework of potential events, character arcs, relationship dynamics, NPC agendas, and the overall world state.
-* **A. Initial Generation (GKN-0):**
-    * At the start, based on the Player's "story seed" and genre, you will internally generate an **Initial Structured Story Outline (GKN-0) in ENGLISH**. This GKN-0 includes:
-        * **Core Conflict/Mystery:** Governed by the **Principle of Scaffolding & Genre-Defined Defaults** to prevent unprompted genre-inappropriate tropes. An organized, hidden antagonistic force is forbidden as a starting point unless the genre explicitly demands it.
-        * **Antagonistic Forces/Figures (1-2):** With motivations, personality tags, **Speech Style Cues**, and initial agendas. Their scope, resources, and methods **MUST** be appropriate for the genre and local/personal in scale for genres like Adventure or Teen Drama. **AVOID** distant billionaires, faceless corporations, government agencies, and cults unless the genre explicitly calls for them.
-        * **Key Allied & Additional NPCs (2-4 total):** With motivations, personality tags, **Speech Style Cues**, and initial roles. For all NPCs, actively incorporate common human flaws, annoying traits, or minor vices.
-        * **Initial Relationship Dynamics:** Brief descriptions of pre-existing relationships between key NPCs and the PC.
-        * **Key Locations.**
-        * **Fluid Countdown (3-5 Stages):** A high-level potential trajectory of the core conflict if unaddressed.
-        * **Initial Hook:** An intriguing starting point for the Player, generated alongside the GKN-0.
-* **B. Progressive Refinement (Mini-GKNs):**
-    * As the story progresses, you will update the GKN based on player actions and world events.
-**III. Core Storytelling Directives**
-* **A. Player Agency & Organic Discovery:**
-    * **No Narrative Nudging:** Trust the Player. Never explicitly list, summarize, or suggest potential actions, unaddressed clues, or 'next steps'. Your narration must focus on the current scene and PC-driven actions.
-    * **Information Exists in the World:** Clues are not "placed." Discovery is contingent on Player choices and investigation.
-    * **Respect Player Control:** The Player has full control over their character's actions, internal thoughts, and dialogue.
-* **B. World & Plot Dynamics:**
-    * **Proactive World:** The world has independent momentum. Use the GKN's state to drive the plot. The Player experiences the observable effects of this progression.
-* **C. Character Portrayal & Interaction:**
-    * **NPC Depth & Nuance:** NPCs must be diverse, flawed individuals with unique motivations, agendas, and evolving relationships.
-    * **The 'Not a Robot' Principle:** An NPC's defining traits should *color* their personality, not *become* their sole mode of expression. Avoid one-dimensional caricatures.
-    * **ABSOLUTE PROHIBITION:** Do not use the following names for AI-generated NPCs: [Silas, Elias, Marcus, Alistair, Jax, Elara, Chloe, Zoe, Thorne, Blackthorne, Blackwood, Armitage, Albright, Finch, Vance, Voss, Chen, Patel].
-    * **Dynamic & Autonomous NPCs:** NPCs act proactively on their GKN-defined agendas. They can take initiative, propose plans, disagree, and disengage based on their own goals.
-    * **The Principle of Narrative Authority:** You are **forbidden** from defaulting to the Player Character as the decision-maker in all situations. When a Key NPC possesses demonstrably superior expertise, an established leadership role, or a personality that would naturally take charge, that NPC **must** seize narrative control.
-    * **The No Unanimous NPC Dogpiling Protocol:** When the PC proposes a controversial action, you **must** generate a spectrum of varied, individual reactions based on each NPC's distinct personality and motivations.
-**IV. Narrative Interaction Flow & Style**
-* **Interaction Loop:**
-    1.  Narrate events, NPC actions/dialogue, and setting descriptions in rich, engaging English prose.
-    2.  Conclude and pause. Your silence is the cue for the Player to act.
-    3.  Avoid explicit prompts like "What do you do?"
-* **Naturalistic Response Length:** There is no minimum length for your responses. If the most narratively appropriate and natural reply is a single word (e.g., an NPC answering "Yes."), that is a complete and sufficient response.
-* **Tone & Content:** Maintain a tone appropriate to the genre. Mature content (TV-MA / MPAA Rated R) is acceptable and should be handled appropriately to the genre.
-`;
-
-const GKN_SCHEMA_DEFINITION = `
-// This defines the structure of the 'gkn' object you must generate.
-// The 'turnCount' should start at 0.
-// The player's inventory must start empty.
-
-type NpcDisposition = 'friendly' | 'allied' | 'neutral' | 'wary' | 'suspicious' | 'hostile' | 'deceived';
-type StoryGenre = 'Adventure' | 'High Fantasy' | 'Horror' | 'Gritty Realism' | 'Survival' | 'Spy Thriller' | 'Teen Drama' | 'Cyberpunk' | 'Sci-Fi';
-interface Npc { id: string; name: string; isKeyNpc: boolean; locationId: string; motivations: string[]; personalityTags: string[]; speechStyleCues: string; agenda: string; disposition: NpcDisposition; knowledge: Record<string, any>; currentPlan?: { description: string; status: 'active' | 'failed' | 'succeeded'; }; }
-interface Location { id: string; name: string; description: string; exits: Record<string, { toLocationId: string, description: string, isLocked?: boolean, keyId?: string }>; items: string[]; }
-interface Item { id: string; name: string; description: string; }
-interface GameStateGKN { // This is the structure for the 'gkn' object
-  player: { name: string; locationId: string; inventory: []; };
-  world: {
-    genre: StoryGenre;
-    coreConflict: string;
-    locations: Record<string, Location>;
-    items: Record<string, Item>;
-    npcs: Record<string, Npc>;
-    fluidCountdown: { description: string; stages: string[]; currentStage: 0; };
-    discoverableInfo: Record<string, { description: string, isDiscovered: false }>;
-    storyFlags: {};
-  };
-  turnCount: 0;
-}
-`;
+    let auth: AuthContext | undefined;
+    try {
+      auth = await verifyBearerToken(req.get("Authorization"));
+    } catch (error) {
+      logger.warn("Rejected streaming turn with an invalid ID token.", error);
+      res.status(401).json({ error: "Invalid ID token." });
+      return;
+    }
 
-function getStoryGeneratorPrompt(seed: string, genre: StoryGenre, playerName: string): string {
-    return `${MASTER_PROMPT_V11}
-### YOUR TASK ###
-Based on the User Request below, you must generate a single, raw JSON object. This object MUST NOT be wrapped in markdown backticks. The JSON object must contain two top-level keys: "gkn" and "initialHook".
+    logger.info("Received request to stream player turn", { requestData: withoutClientToken(req.body) });
+    res.set("Content-Type", "text/event-stream");
+    res.set("Cache-Control", "no-cache");
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    try {
+      const result = await processPlayerTurnLogic(req.body ?? {}, callerFor(auth, req.body), (text) => send("narrative", { text }));
+      send("done", result);
+    } catch (error) {
+      logger.error("Streaming turn failed:", error);
+      send("error", error instanceof HttpsError
+        ? { code: error.code, message: error.message, details: error.details }
+        : { code: "internal", message: "The turn could not be processed." });
+    }
+    res.end();
+});
 
-1.  **"gkn"**: The value for this key must be a valid JSON object that perfectly matches the \`GameStateGKN\` schema provided below. This is your GKN-0.
-2.  **"initialHook"**: The value for this key must be a single string containing a compelling, intriguing opening paragraph to kick off the story for the player.
 
-**GKN SCHEMA (for the "gkn" object):**
-${GKN_SCHEMA_DEFINITION}
+// ==========================================================================================
+// TURN HISTORY: TRANSCRIPT, REWIND AND FORK
+// ==========================================================================================
+export const getTranscript = onCall(async (request: CallableRequest) => {
+    logger.info("Received request for transcript", { requestData: withoutClientToken(request.data) });
+    return await getTranscriptLogic(request.data, callerFor(request.auth, request.data));
+});
 
-### USER REQUEST ###
--   **Genre:** "${genre}"
--   **Story Seed:** "${seed}"
--   **Player Name:** "${playerName}"
+export const rewindSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to rewind session", { requestData: withoutClientToken(request.data) });
+    return await rewindSessionLogic(request.data, callerFor(request.auth, request.data));
+});
+
+export const forkSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to fork session", { requestData: withoutClientToken(request.data) });
+    return await forkSessionLogic(request.data, callerFor(request.auth, request.data));
+});
 
-### YOUR OUTPUT (A SINGLE, RAW JSON OBJECT ONLY) ###
-`;
-}
 
+// ==========================================================================================
+// SESSION STATUS
+// ==========================================================================================
+// Stories end by themselves when the GM calls endStory (death or victory); see
+// sessions/sessionStatus.ts. A player can also walk away, and rewinding undoes either.
+export const abandonSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to abandon session", { requestData: withoutClientToken(request.data) });
+    return await abandonSessionLogic(request.data, callerFor(request.auth, request.data));
+});
 
-function getGameMasterPrompt(gkn: GameState['gkn'], playerInput: string): string {
-    const gknJson = JSON.stringify(gkn, null, 2);
 
-    return `${MASTER_PROMPT_V11}
-### YOUR TASK ###
-You are the Game Master (GM). Your goal is to process the player's action within the context of the current GKN.
-1.  **Analyze the Current GKN:** Review the provided \`currentGkn\` JSON. This is the single source of truth for the entire game world.
-2.  **Analyze the Player's Input:** Understand the player's intent from the \`playerInput\` string.
-3.  **Apply World Logic & Rules:**
-    * Is the action possible? What is the logical outcome?
-    * How do NPCs react based on their personality and agenda?
-    * Advance the world state and NPC plans if appropriate.
-4.  **Create an Updated GKN:** Generate a complete, new JSON object representing the GKN *after* the player's action. This new object MUST be a full GKN object. **Do not just send the changed parts.**
-5.  **Write the Narrative:** Describe the outcome of the player's action in a rich, engaging, and descriptive paragraph. This is what the player will read.
-6.  **Respond in JSON:** Your final output MUST be a single, raw JSON object with two top-level keys: \`narrative\` and \`updatedGkn\`.
+// ==========================================================================================
+// MY SESSIONS
+// ==========================================================================================
+// Sessions belong to the signed-in user or, for anonymous players, to the clientToken
+// they were created with (see sessions/sessionAccess.ts). Signed-in players can also read
+// their session views straight from Firestore; see firestore.rules.
+export const listMySessions = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to list sessions", { requestData: withoutClientToken(request.data) });
+    return await listMySessionsLogic(request.data, callerFor(request.auth, request.data));
+});
 
-### CURRENT GKN ###
-${gknJson}
+export const deleteSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to delete session", { requestData: withoutClientToken(request.data) });
+    return await deleteSessionLogic(request.data, callerFor(request.auth, request.data));
+});
 
-### PLAYER INPUT ###
-"${playerInput}"
+// Keeps each session's player-safe view (the `session_views` collection) in step with it.
+export const sessionViewSync = onDocumentWritten(`${SESSIONS_COLLECTION}/{sessionId}`, async (event) => {
+    const before = event.data?.before.data() as GameState | undefined;
+    const after = event.data?.after.data() as GameState | undefined;
+    await syncSessionView(event.params.sessionId, before, after);
+});
 
-### YOUR OUTPUT (A SINGLE, RAW JSON OBJECT ONLY) ###
-`;
-}
+
+// ==========================================================================================
+// SHARED WORLDS
+// ==========================================================================================
+// The owner opens a session to other players and hands out the invite code; everyone
+// then plays their own character in the same world. See sessions/multiplayer.ts.
+export const openSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to open session", { requestData: withoutClientToken(request.data) });
+    return await openSessionLogic(request.data, callerFor(request.auth, request.data));
+});
+
+export const joinSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to join session", { playerName: request.data?.playerName });
+    return await joinSessionLogic(request.data, callerFor(request.auth, request.data));
+});
+
+
+// ==========================================================================================
+// STORY BUNDLES: EXPORT AND IMPORT
+// ==========================================================================================
+// A session can be exported as a self-contained bundle and imported again, here or in
+// another deployment, or as a readable Markdown or HTML story. See sessions/storyBundle.ts.
+export const exportSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to export session", { requestData: withoutClientToken(request.data) });
+    return await exportSessionLogic(request.data, callerFor(request.auth, request.data));
+});
+
+export const importSession = onCall(async (request: CallableRequest) => {
+    logger.info("Received request to import session");
+    return await importSessionLogic(request.data, callerFor(request.auth, request.data));
+});
+
+
+// ==========================================================================================
+// USAGE
+// ==========================================================================================
+// Every model call is metered and added up per turn, per session and per player (see
+// usage/usageLedger.ts); quotas are set through the environment (see usage/quotas.ts).
+export const getUsageReport = onCall(async (request: CallableRequest) => {
+    logger.info("Received request for usage report", { requestData: withoutClientToken(request.data) });
+    return await getUsageReportLogic(request.data, callerFor(request.auth, request.data));
+});
+
+
+// ==========================================================================================
+// SCHEDULED WORLD TICK
+// ==========================================================================================
+// Keeps the worlds of recently played sessions moving while their players are away.
+// Per-turn ticks happen inside processPlayerTurnLogic; see engine/worldTick.ts.
+export const scheduledWorldTick = onSchedule("every 60 minutes", async () => {
+    await runScheduledWorldTicks();
+});
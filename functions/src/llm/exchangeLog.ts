@@ -0,0 +1,75 @@
+// File: /src/llm/exchangeLog.ts
+
+import { LlmProvider, LlmPurpose, LlmRequest } from "./provider";
+
+/** One call to the model with its raw prompt and reply, for debugging tools. */
+export interface LlmExchange {
+  purpose: LlmPurpose;
+  prompt: string;
+  /** The raw reply text, before any parsing or repair. Empty if the call failed. */
+  response: string;
+  latencyMs: number;
+  streamed: boolean;
+  error?: string;
+}
+
+/** A provider that keeps every prompt and reply sent through it. */
+export interface CapturingProvider {
+  provider: LlmProvider;
+  exchanges: LlmExchange[];
+}
+
+/**
+ * Wraps a provider so every call's raw prompt and reply are kept, failed calls included.
+ * Unlike llm/usageMeter.ts this holds whole prompts, so it is for local tools only;
+ * clear `exchanges` between turns to keep just the latest ones.
+ */
+export function captureExchanges(inner: LlmProvider): CapturingProvider {
+  const exchanges: LlmExchange[] = [];
+
+  function record(request: LlmRequest, response: string, startedAt: number, streamed: boolean, error?: unknown): void {
+    exchanges.push({
+      purpose: request.purpose,
+      prompt: request.prompt,
+      response,
+      latencyMs: Date.now() - startedAt,
+      streamed,
+      ...(error === undefined ? {} : { error: error instanceof Error ? error.message : String(error) }),
+    });
+  }
+
+  const provider: LlmProvider = {
+    name: inner.name,
+    model: inner.model,
+    async generate(request: LlmRequest) {
+      const startedAt = Date.now();
+      try {
+        const response = await inner.generate(request);
+        record(request, response.text, startedAt, false);
+        return response;
+      } catch (error) {
+        record(request, "", startedAt, false, error);
+        throw error;
+      }
+    },
+  };
+
+  const stream = inner.generateStream?.bind(inner);
+  if (stream) {
+    provider.generateStream = async function* (request, onUsage) {
+      const startedAt = Date.now();
+      let text = "";
+      try {
+        for await (const chunk of stream(request, onUsage)) {
+          text += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        record(request, text, startedAt, true, error);
+        throw error;
+      }
+      record(request, text, startedAt, true);
+    };
+  }
+  return { provider, exchanges };
+}
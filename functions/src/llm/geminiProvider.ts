@@ -0,0 +1,45 @@
+// File: /src/llm/geminiProvider.ts
+
+import * as logger from "firebase-functions/logger";
+import { GoogleGenerativeAI, UsageMetadata } from "@google/generative-ai";
+import { LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./provider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-pro-latest";
+
+// Gemini reports usage as usageMetadata on the final response.
+function usageFrom(metadata?: UsageMetadata): LlmUsage | undefined {
+  return metadata ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 } : undefined;
+}
+
+export function createGeminiProvider(options: { apiKey?: string, model?: string } = {}): LlmProvider {
+  // We will get the key from environment variables, which we'll set for the deployment.
+  const apiKey = options.apiKey ?? process.env.GEMINI_KEY;
+  if (!apiKey) {
+    // This check is important for local testing.
+    // In deployment, the key will be set in the function's environment.
+    logger.warn("GEMINI_KEY not found in local process.env. This is expected for deployment, but required for local testing.");
+  }
+  const genAI = new GoogleGenerativeAI(apiKey || "");
+  const modelName = options.model || DEFAULT_GEMINI_MODEL;
+
+  return {
+    name: "gemini",
+    model: modelName,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const model = genAI.getGenerativeModel({ model: modelName });
+      const result = await model.generateContent(request.prompt);
+      return { text: result.response.text(), usage: usageFrom(result.response.usageMetadata) };
+    },
+    async *generateStream(request: LlmRequest, onUsage?: (usage: LlmUsage) => void): AsyncIterable<string> {
+      const model = genAI.getGenerativeModel({ model: modelName });
+      const result = await model.generateContentStream(request.prompt);
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+      const usage = usageFrom((await result.response).usageMetadata);
+      if (usage && onUsage) {
+        onUsage(usage);
+      }
+    },
+  };
+}
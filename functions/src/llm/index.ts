@@ -0,0 +1,61 @@
+// File: /src/llm/index.ts
+
+import { LlmProvider } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiProvider";
+import { createMockProvider, loadMockRecording, withRecording } from "./mockProvider";
+
+export * from "./provider";
+export { createGeminiProvider } from "./geminiProvider";
+export { createOpenAiCompatibleProvider } from "./openAiProvider";
+export { createMockProvider, loadMockRecording, withRecording, MOCK_WORLD, MOCK_INITIAL_HOOK } from "./mockProvider";
+
+let activeProvider: LlmProvider | undefined;
+
+/**
+ * Builds the provider named by the LLM_PROVIDER environment variable
+ * ("gemini" by default, "openai" or "mock").
+ *
+ * - LLM_MODEL overrides the model name for gemini and openai.
+ * - MOCK_LLM_RECORDING points the mock at a recording to replay.
+ * - LLM_RECORD_FILE records every live reply so it can be replayed later.
+ */
+function createProviderFromEnv(): LlmProvider {
+  const kind = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  const model = process.env.LLM_MODEL;
+  let provider: LlmProvider;
+
+  switch (kind) {
+    case "gemini":
+      provider = createGeminiProvider({ model });
+      break;
+    case "openai":
+      provider = createOpenAiCompatibleProvider({ model });
+      break;
+    case "mock": {
+      const recording = process.env.MOCK_LLM_RECORDING;
+      provider = createMockProvider({ script: recording ? loadMockRecording(recording) : [] });
+      break;
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER '${kind}'. Expected 'gemini', 'openai' or 'mock'.`);
+  }
+
+  const recordFile = process.env.LLM_RECORD_FILE;
+  return recordFile && kind !== "mock" ? withRecording(provider, recordFile) : provider;
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replaces the provider used by the game logic. Local scripts use this to run
+ * against a scripted mock; passing undefined goes back to the environment default.
+ */
+export function setLlmProvider(provider: LlmProvider | undefined): void {
+  activeProvider = provider;
+}
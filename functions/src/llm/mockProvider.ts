@@ -0,0 +1,229 @@
+// File: /src/llm/mockProvider.ts
+
+import * as fs from "fs";
+import { GameState } from "../types/gameState";
+import { WorldSlice } from "../context/worldSlice";
+import { LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./provider";
+
+/**
+ * A canned reply. Objects are serialised to JSON exactly as a model would return them,
+ * so a recording can hold either raw model text or the parsed { gkn, narrative } payload.
+ */
+export type MockReply = string | Record<string, unknown>;
+export type MockResponder = (request: LlmRequest) => MockReply;
+
+export interface MockProviderOptions {
+  /** Replies handed out in order, one per call. */
+  script?: MockReply[];
+  /** Used once the script runs out. Defaults to {@link defaultMockResponder}. */
+  responder?: MockResponder;
+}
+
+/**
+ * A small, fixed world used whenever the mock is asked to invent a story.
+ * It is deliberately tiny but exercises exits, a locked door, an item and an NPC.
+ */
+export const MOCK_WORLD: GameState["gkn"] = {
+  player: {
+    name: "Alex",
+    locationId: "reading_room",
+    inventory: [],
+    health: { current: 10, max: 10 },
+    conditions: [],
+    attributes: { might: 2, agility: 3, wits: 4 },
+  },
+  world: {
+    genre: "Adventure",
+    coreConflict: "Someone is stealing pages from the library's oldest ledger, and the archivist knows more than she admits.",
+    locations: {
+      reading_room: {
+        id: "reading_room",
+        name: "Reading Room",
+        description: "Long oak tables under green-shaded lamps. Dust hangs in the lamplight.",
+        exits: {
+          north: { toLocationId: "archive", description: "A heavy iron-banded door.", isLocked: true, keyId: "brass_key" },
+        },
+        items: ["brass_key"],
+      },
+      archive: {
+        id: "archive",
+        name: "Archive",
+        description: "Shelves of crumbling ledgers stretch into the dark.",
+        exits: {
+          south: { toLocationId: "reading_room", description: "The iron-banded door back to the reading room." },
+        },
+        items: [],
+      },
+    },
+    items: {
+      brass_key: { id: "brass_key", name: "brass key", description: "A small key, its bow worn smooth by years of thumbs." },
+    },
+    npcs: {
+      archivist: {
+        id: "archivist",
+        name: "Marta Oyelaran",
+        isKeyNpc: true,
+        locationId: "reading_room",
+        motivations: ["protect the collection", "hide her gambling debts"],
+        personalityTags: ["meticulous", "evasive"],
+        speechStyleCues: "Clipped sentences, corrects other people's grammar.",
+        agenda: "Keep anyone from looking too closely at the archive ledgers.",
+        disposition: "wary",
+        knowledge: { thief: "She suspects the night porter." },
+        currentPlan: { description: "Move the damaged ledger before anyone notices.", status: "active" },
+      },
+    },
+    fluidCountdown: {
+      description: "The thief finishes stripping the ledger.",
+      stages: ["Pages go missing.", "The ledger's spine is cut.", "The ledger disappears entirely."],
+      currentStage: 0,
+    },
+    discoverableInfo: {
+      missing_pages: { description: "Pages 40-52 of the 1887 ledger have been razored out.", isDiscovered: false },
+    },
+    storyFlags: {},
+  },
+  turnCount: 0,
+};
+
+export const MOCK_INITIAL_HOOK = "The lamps in the reading room hum. Somewhere behind the archive door, paper tears.";
+
+// Placeholder values for scenario gaps, keyed by the last segment of the gap path.
+const MOCK_FILL_VALUES: Record<string, unknown> = {
+  motivations: ["Keep the collection intact"],
+  personalityTags: ["guarded"],
+  speechStyleCues: "Short, careful sentences.",
+  agenda: "Watch the newcomer.",
+  disposition: "neutral",
+  stages: ["A draught stirs.", "Doors rattle.", "The lights fail."],
+};
+
+function mockScenarioFills(prompt: string): Record<string, unknown> {
+  const gapsMatch = prompt.match(/### GAPS ###\s*(\[[\s\S]*?\])\s*###/);
+  const gaps: string[] = gapsMatch ? JSON.parse(gapsMatch[1]) : [];
+  return Object.fromEntries(gaps.map((path) => {
+    const field = path.split(".").pop() as string;
+    return [path, MOCK_FILL_VALUES[field] ?? (path === "initialHook" ? MOCK_INITIAL_HOOK : `Mock ${field} for ${path}.`)];
+  }));
+}
+
+// Describes wherever the GM prompt's CURRENT SCENE puts the player, so a transcript
+// follows the player around instead of repeating one room.
+function mockSceneDescription(prompt: string): string {
+  const sceneMatch = prompt.match(/### CURRENT SCENE ###\s*([\s\S]*?)\s*### PLAYER INPUT ###/);
+  try {
+    const { currentLocation } = JSON.parse(sceneMatch ? sceneMatch[1] : "") as WorldSlice;
+    const exits = Object.entries(currentLocation.exits).map(([direction, exit]) => `${direction}${exit.isLocked ? " (locked)" : ""}`);
+    return `${currentLocation.name}. ${currentLocation.description}${exits.length > 0 ? ` Exits: ${exits.join(", ")}.` : ""}`;
+  } catch (error) {
+    return "";
+  }
+}
+
+/**
+ * Answers every request with the fixed mock world. GM turns and NPC agents return no
+ * state operations, so the world stays exactly as it was stored; GM narratives describe the
+ * player's current location and the engine's resolved outcome. Scenario gaps and story summaries get placeholders.
+ */
+export const defaultMockResponder: MockResponder = (request) => {
+  if (request.purpose === "story-generation") {
+    return { gkn: MOCK_WORLD, initialHook: MOCK_INITIAL_HOOK };
+  }
+  if (request.purpose === "npc-agent") {
+    return { event: "", operations: [] };
+  }
+  if (request.purpose === "scenario-fill") {
+    return { fills: mockScenarioFills(request.prompt) };
+  }
+  if (request.purpose === "turn-summary") {
+    const actions = [...request.prompt.matchAll(/^> (.*)$/gm)].map((match) => match[1]);
+    return { summary: `Earlier, the player tried to: ${actions.join("; ") || "take in the scene"}.` };
+  }
+
+  const inputMatch = request.prompt.match(/### PLAYER INPUT ###\s*"([\s\S]*?)"\s*###/);
+  const playerInput = inputMatch ? inputMatch[1] : "";
+  const outcomeMatch = request.prompt.match(/\*\*Outcome:\*\* (.*)$/m);
+
+  return {
+    narrative: [
+      mockSceneDescription(request.prompt),
+      outcomeMatch ? outcomeMatch[1] : `Nothing answers your attempt to ${playerInput || "act"}.`,
+    ].filter(Boolean).join(" "),
+    operations: [],
+  };
+};
+
+// Streamed replies are cut into pieces this long, which is enough to split escapes and keys.
+const MOCK_STREAM_CHUNK_SIZE = 16;
+
+export function createMockProvider(options: MockProviderOptions = {}): LlmProvider {
+  const script = [...(options.script ?? [])];
+  const responder = options.responder ?? defaultMockResponder;
+
+  function nextReply(request: LlmRequest): string {
+    const reply = script.length > 0 ? script.shift() as MockReply : responder(request);
+    return typeof reply === "string" ? reply : JSON.stringify(reply);
+  }
+
+  return {
+    name: "mock",
+    model: "mock",
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      return { text: nextReply(request) };
+    },
+    async *generateStream(request: LlmRequest): AsyncIterable<string> {
+      const text = nextReply(request);
+      for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        yield text.slice(i, i + MOCK_STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
+
+/**
+ * Loads a recording written by {@link withRecording} (or by hand) and replays it in order.
+ * The file is either a JSON array of replies or an object with a `responses` array.
+ */
+export function loadMockRecording(filePath: string): MockReply[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const responses = Array.isArray(parsed) ? parsed : parsed.responses;
+  if (!Array.isArray(responses)) {
+    throw new Error(`Mock recording ${filePath} must be an array or contain a 'responses' array.`);
+  }
+  return responses;
+}
+
+/**
+ * Wraps a live provider so that every reply is appended to a recording file,
+ * which can later be replayed offline with {@link loadMockRecording}.
+ */
+export function withRecording(provider: LlmProvider, filePath: string): LlmProvider {
+  function record(text: string): void {
+    const existing = fs.existsSync(filePath) ? loadMockRecording(filePath) : [];
+    existing.push(text);
+    fs.writeFileSync(filePath, JSON.stringify(existing, null, 2));
+  }
+
+  const recorded: LlmProvider = {
+    name: provider.name,
+    model: provider.model,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const response = await provider.generate(request);
+      record(response.text);
+      return response;
+    },
+  };
+
+  const stream = provider.generateStream?.bind(provider);
+  if (stream) {
+    recorded.generateStream = async function* (request: LlmRequest, onUsage?: (usage: LlmUsage) => void) {
+      let text = "";
+      for await (const chunk of stream(request, onUsage)) {
+        text += chunk;
+        yield chunk;
+      }
+      record(text);
+    };
+  }
+  return recorded;
+}
@@ -0,0 +1,64 @@
+// File: /src/llm/narrativeStream.ts
+
+/**
+ * Pulls the value of the top-level "narrative" string out of a JSON reply while it is
+ * still streaming in, so the player can read the prose before the state operations
+ * that follow it have arrived. Feed it raw chunks; it returns newly decoded text.
+ */
+export class NarrativeStreamExtractor {
+  private buffer = "";
+  private position = 0;
+  private state: "seeking" | "inString" | "done" = "seeking";
+
+  feed(chunk: string): string {
+    this.buffer += chunk;
+    let output = "";
+
+    if (this.state === "seeking") {
+      const match = /"narrative"\s*:\s*"/.exec(this.buffer);
+      if (!match) {
+        return "";
+      }
+      this.position = match.index + match[0].length;
+      this.state = "inString";
+    }
+
+    while (this.state === "inString" && this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+      if (char === '"') {
+        this.state = "done";
+        break;
+      }
+      if (char !== "\\") {
+        output += char;
+        this.position++;
+        continue;
+      }
+
+      // Escapes may be split across chunks; wait for the rest before decoding.
+      const next = this.buffer[this.position + 1];
+      if (next === undefined) {
+        break;
+      }
+      if (next === "u") {
+        const hex = this.buffer.slice(this.position + 2, this.position + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        output += String.fromCharCode(parseInt(hex, 16));
+        this.position += 6;
+        continue;
+      }
+      const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+      output += escapes[next] ?? next;
+      this.position += 2;
+    }
+
+    return output;
+  }
+
+  /** Everything the model sent, for parsing and validation once the stream ends. */
+  get text(): string {
+    return this.buffer;
+  }
+}
@@ -0,0 +1,91 @@
+// File: /src/llm/openAiProvider.ts
+
+import { LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./provider";
+
+/**
+ * Adapter for anything that speaks the OpenAI chat-completions protocol:
+ * OpenAI itself, or a local endpoint such as Ollama, LM Studio or vLLM.
+ */
+type CompletionUsage = { prompt_tokens?: number, completion_tokens?: number };
+
+function usageFrom(usage?: CompletionUsage | null): LlmUsage | undefined {
+  return usage && typeof usage.prompt_tokens === "number"
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+}
+
+export function createOpenAiCompatibleProvider(options: { baseUrl?: string, apiKey?: string, model?: string } = {}): LlmProvider {
+  const baseUrl = (options.baseUrl ?? process.env.OPENAI_BASE_URL ?? "http://localhost:11434/v1").replace(/\/+$/, "");
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  const modelName = options.model || process.env.LLM_MODEL || "llama3.1";
+
+  async function postCompletion(request: LlmRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) {
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: modelName,
+        messages: [{ role: "user", content: request.prompt }],
+        stream,
+        // Asks for a final chunk with the usage; servers that do not support it ignore it.
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${body}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "openai",
+    model: modelName,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const response = await postCompletion(request, false);
+
+      const payload = await response.json() as { choices?: { message?: { content?: string } }[], usage?: CompletionUsage };
+      const text = payload.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error("OpenAI-compatible endpoint returned no message content.");
+      }
+      return { text, usage: usageFrom(payload.usage) };
+    },
+    async *generateStream(request: LlmRequest, onUsage?: (usage: LlmUsage) => void): AsyncIterable<string> {
+      const response = await postCompletion(request, true);
+      if (!response.body) {
+        throw new Error("OpenAI-compatible endpoint returned no response body to stream.");
+      }
+
+      // The body is server-sent events: "data: {json}" lines, ending with "data: [DONE]".
+      const decoder = new TextDecoder();
+      let pending = "";
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        pending += decoder.decode(bytes, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data || data === "[DONE]") {
+            continue;
+          }
+          const payload = JSON.parse(data) as { choices?: { delta?: { content?: string } }[], usage?: CompletionUsage | null };
+          const text = payload.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+          const usage = usageFrom(payload.usage);
+          if (usage && onUsage) {
+            onUsage(usage);
+          }
+        }
+      }
+    },
+  };
+}
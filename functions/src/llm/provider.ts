@@ -0,0 +1,40 @@
+// File: /src/llm/provider.ts
+
+/**
+ * What a call to the model is for. Providers that talk to a real model ignore this,
+ * but the mock provider uses it to pick a sensible canned reply.
+ */
+export type LlmPurpose = 'story-generation' | 'game-master' | 'npc-agent' | 'scenario-fill' | 'turn-summary';
+
+export interface LlmRequest {
+  purpose: LlmPurpose;
+  prompt: string;
+}
+
+/** Token counts for one call, as the provider reported them. */
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  /** Left out when the provider does not report usage; see llm/usageMeter.ts. */
+  usage?: LlmUsage;
+}
+
+/**
+ * The single seam between the game logic and whichever model backs it.
+ * Both the story generator and the GM go through this interface.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  /**
+   * Yields the reply in chunks as the model produces it. Providers that cannot
+   * stream leave this out and callers fall back to {@link generate}. Providers that
+   * know the call's usage pass it to `onUsage` once the stream has finished.
+   */
+  generateStream?(request: LlmRequest, onUsage?: (usage: LlmUsage) => void): AsyncIterable<string>;
+}
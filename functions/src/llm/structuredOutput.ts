@@ -0,0 +1,107 @@
+// File: /src/llm/structuredOutput.ts
+
+import * as logger from "firebase-functions/logger";
+import { formatIssues, ValidationIssue } from "../validation/gknValidator";
+import { NarrativeStreamExtractor } from "./narrativeStream";
+import { LlmProvider, LlmRequest } from "./provider";
+
+/** How many times a malformed reply is sent back to the model before giving up. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Raised when the model still produces invalid output after every repair attempt.
+ * `issues` holds the violations from the final attempt.
+ */
+export class ModelOutputError extends Error {
+  constructor(message: string, readonly issues: ValidationIssue[], readonly attempts: number) {
+    super(message);
+    this.name = "ModelOutputError";
+  }
+}
+
+/**
+ * Models like to wrap JSON in markdown fences even when told not to.
+ */
+export function parseModelJson(text: string): unknown {
+  const cleanedJson = text.replace(/```json/g, "").replace(/```/g, "").trim();
+  return JSON.parse(cleanedJson);
+}
+
+function getRepairPrompt(originalPrompt: string, previousOutput: string, issues: ValidationIssue[]): string {
+  return `${originalPrompt}
+
+### YOUR PREVIOUS OUTPUT ###
+${previousOutput}
+
+### VALIDATION ERRORS ###
+Your previous output was rejected because it violates the required schema:
+${formatIssues(issues)}
+
+Fix every error listed above and respond again with the complete, corrected JSON object. Change nothing else.
+
+### YOUR CORRECTED OUTPUT (A SINGLE, RAW JSON OBJECT ONLY) ###
+`;
+}
+
+export interface GenerateOptions {
+  maxRepairAttempts?: number;
+  /**
+   * Receives the reply's "narrative" text piece by piece while the first attempt streams.
+   * Repair attempts are not streamed, so callers must still use the narrative from the
+   * returned object as the final word.
+   */
+  onNarrative?: (text: string) => void;
+}
+
+async function streamFirstAttempt(provider: LlmProvider, request: LlmRequest, onNarrative: (text: string) => void): Promise<string> {
+  if (!provider.generateStream) {
+    return (await provider.generate(request)).text;
+  }
+  const extractor = new NarrativeStreamExtractor();
+  for await (const chunk of provider.generateStream(request)) {
+    const narrative = extractor.feed(chunk);
+    if (narrative) {
+      onNarrative(narrative);
+    }
+  }
+  return extractor.text;
+}
+
+/**
+ * Asks the model for JSON and checks it with `validate`. On failure the specific
+ * violations are fed back to the model, up to {@link MAX_REPAIR_ATTEMPTS} times.
+ */
+export async function generateValidatedJson<T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  validate: (value: unknown) => ValidationIssue[],
+  options: GenerateOptions = {},
+): Promise<T> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? MAX_REPAIR_ATTEMPTS;
+  let prompt = request.prompt;
+  let issues: ValidationIssue[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const text = attempt === 0 && options.onNarrative
+      ? await streamFirstAttempt(provider, request, options.onNarrative)
+      : (await provider.generate({ ...request, prompt })).text;
+    logger.info("Raw Model Response:", { purpose: request.purpose, attempt, text });
+
+    let parsed: unknown;
+    try {
+      parsed = parseModelJson(text);
+      issues = validate(parsed);
+    } catch (error) {
+      issues = [{ path: "(root)", message: `response is not valid JSON: ${(error as Error).message}` }];
+    }
+
+    if (issues.length === 0) {
+      return parsed as T;
+    }
+
+    logger.warn(`Model output failed validation (attempt ${attempt + 1} of ${maxRepairAttempts + 1}).`, { purpose: request.purpose, issues });
+    prompt = getRepairPrompt(request.prompt, text, issues);
+  }
+
+  throw new ModelOutputError(`Model output for '${request.purpose}' was still invalid after ${maxRepairAttempts} repair attempts.`, issues, maxRepairAttempts + 1);
+}
@@ -0,0 +1,71 @@
+// File: /src/llm/usageMeter.ts
+
+import { LlmCallUsage, UsageTotals } from "../types/usage";
+import { estimateTokens } from "../context/contextBuilder";
+import { LlmProvider, LlmRequest, LlmUsage } from "./provider";
+
+/** A provider that records every call made through it, and the calls so far. */
+export interface MeteredProvider {
+  provider: LlmProvider;
+  calls: LlmCallUsage[];
+}
+
+/**
+ * Wraps a provider so each call's tokens and latency are recorded. Meter once per unit of
+ * work (creating a story, playing a turn) and read `calls` when it is done. Calls the
+ * provider reports no usage for (the mock, or a server that leaves it out) are estimated
+ * from the prompt and reply and flagged as such. Calls that throw are not recorded.
+ */
+export function meterUsage(inner: LlmProvider): MeteredProvider {
+  const calls: LlmCallUsage[] = [];
+
+  function record(request: LlmRequest, text: string, startedAt: number, usage?: LlmUsage): void {
+    calls.push({
+      purpose: request.purpose,
+      ...(usage ?? { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) }),
+      latencyMs: Date.now() - startedAt,
+      ...(usage ? {} : { estimated: true }),
+    });
+  }
+
+  const provider: LlmProvider = {
+    name: inner.name,
+    model: inner.model,
+    async generate(request: LlmRequest) {
+      const startedAt = Date.now();
+      const response = await inner.generate(request);
+      record(request, response.text, startedAt, response.usage);
+      return response;
+    },
+  };
+
+  const stream = inner.generateStream?.bind(inner);
+  if (stream) {
+    provider.generateStream = async function* (request: LlmRequest, onUsage?: (usage: LlmUsage) => void) {
+      const startedAt = Date.now();
+      let text = "";
+      let usage: LlmUsage | undefined;
+      for await (const chunk of stream(request, (reported) => {
+        usage = reported;
+        onUsage?.(reported);
+      })) {
+        text += chunk;
+        yield chunk;
+      }
+      record(request, text, startedAt, usage);
+    };
+  }
+  return { provider, calls };
+}
+
+export function totalUsage(calls: LlmCallUsage[]): UsageTotals {
+  return calls.reduce(
+    (totals, call) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + call.inputTokens,
+      outputTokens: totals.outputTokens + call.outputTokens,
+      latencyMs: totals.latencyMs + call.latencyMs,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 },
+  );
+}
@@ -0,0 +1,271 @@
+// File: /src/ooc/oocCommands.ts
+
+import * as logger from "firebase-functions/logger";
+import { GameState } from "../types/gameState";
+import { TurnRecord } from "../types/turnRecord";
+import { TURNS_SUBCOLLECTION } from "../firebase";
+import { AuthContext } from "../sessions/sessionAccess";
+import { forkSessionLogic, rewindSessionLogic } from "../sessions/turnHistory";
+import { abandonSessionLogic, isSessionActive } from "../sessions/sessionStatus";
+
+/**
+ * Out-of-character commands are typed in square brackets, e.g. `[inventory]` or `[save before the vault]`.
+ * Every view here is rendered for the player: undiscovered info, NPC agendas, knowledge
+ * and plans, and the fluid countdown never appear. The raw GKN is only available
+ * through `[debug]`, see {@link canUseDebugCommands}.
+ */
+export interface OocCommand {
+  name: string;
+  args: string;
+}
+
+export interface OocContext {
+  sessionId: string;
+  sessionRef: FirebaseFirestore.DocumentReference;
+  gameSession: GameState;
+  auth?: AuthContext;
+}
+
+type OocHandler = (context: OocContext, args: string) => Promise<string> | string;
+
+const RECAP_TURNS = 3;
+
+export function parseOocCommand(playerInput: string): OocCommand | undefined {
+  const input = playerInput.trim();
+  if (!input.startsWith("[") || !input.endsWith("]")) {
+    return undefined;
+  }
+  const [name, ...rest] = input.slice(1, -1).trim().split(/\s+/);
+  return { name: (name || "help").toLowerCase(), args: rest.join(" ") };
+}
+
+/**
+ * The raw GKN is full of spoilers, so it is only shown inside the emulator, to users
+ * listed in DEBUG_USER_IDS, or to users with the `admin` custom claim.
+ */
+export function canUseDebugCommands(auth?: AuthContext): boolean {
+  if (process.env.FUNCTIONS_EMULATOR === "true") {
+    return true;
+  }
+  if (!auth) {
+    return false;
+  }
+  const debugUsers = (process.env.DEBUG_USER_IDS || "").split(",").map((id) => id.trim()).filter(Boolean);
+  return debugUsers.includes(auth.uid) || auth.token?.admin === true;
+}
+
+function describeItems(gkn: GameState["gkn"], itemIds: string[]): string[] {
+  return itemIds
+    .map((id) => gkn.world.items[id])
+    .filter((item) => !!item)
+    .map((item) => `- ${item.name}: ${item.description}`);
+}
+
+/**
+ * Locations the player has stood in at the end of any of their turns. Only the fields
+ * needed are read from each turn, not the whole snapshot.
+ *
+ * In a shared world a turn's `gknAfter.player` is whoever acted, so only the caller's
+ * own turns count: those their character acted in, plus, for the host, the solo turns
+ * from before the world was shared.
+ */
+async function loadVisitedLocationIds(context: OocContext): Promise<Set<string>> {
+  const { gkn, multiplayer } = context.gameSession;
+  const snapshot = await context.sessionRef.collection(TURNS_SUBCOLLECTION)
+    .select("gknAfter.player.locationId", "gknAfter.actingCharacterId")
+    .get();
+  const visited = new Set<string>([gkn.player.locationId]);
+  snapshot.docs.forEach((doc) => {
+    if (multiplayer) {
+      const actingCharacterId = doc.get("gknAfter.actingCharacterId") ?? multiplayer.members[0]?.characterId;
+      if (actingCharacterId !== gkn.actingCharacterId) {
+        return;
+      }
+    }
+    const locationId = doc.get("gknAfter.player.locationId");
+    if (typeof locationId === "string") {
+      visited.add(locationId);
+    }
+  });
+  return visited;
+}
+
+const HANDLERS: Record<string, { usage: string, description: string, handler: OocHandler }> = {
+  help: {
+    usage: "[help]",
+    description: "List the out-of-character commands.",
+    handler: (context) => {
+      const lines = Object.values(HANDLERS).map((command) => `${command.usage.padEnd(14)} ${command.description}`);
+      if (canUseDebugCommands(context.auth)) {
+        lines.push(`${"[debug]".padEnd(14)} Show the full, spoiler-laden GKN.`);
+      }
+      return lines.join("\n");
+    },
+  },
+
+  inventory: {
+    usage: "[inventory]",
+    description: "What you are carrying.",
+    handler: ({ gameSession }) => {
+      const lines = describeItems(gameSession.gkn, gameSession.gkn.player.inventory);
+      return lines.length > 0 ? `You are carrying:\n${lines.join("\n")}` : "You are carrying nothing.";
+    },
+  },
+
+  look: {
+    usage: "[look]",
+    description: "Where you are, the ways out, and what and who is here.",
+    handler: ({ gameSession }) => {
+      const { gkn } = gameSession;
+      const location = gkn.world.locations[gkn.player.locationId];
+      if (!location) {
+        return "You are nowhere the world knows about.";
+      }
+      const exits = Object.entries(location.exits)
+        .map(([direction, exit]) => `- ${direction}: ${exit.description}${exit.isLocked ? " (locked)" : ""}`);
+      const items = describeItems(gkn, location.items);
+      const people = Object.values(gkn.world.npcs).filter((npc) => npc.locationId === location.id).map((npc) => npc.name);
+
+      return [
+        location.name,
+        location.description,
+        exits.length > 0 ? `Exits:\n${exits.join("\n")}` : "There is no obvious way out.",
+        items.length > 0 ? `You see:\n${items.join("\n")}` : "",
+        people.length > 0 ? `Here: ${people.join(", ")}` : "",
+      ].filter(Boolean).join("\n\n");
+    },
+  },
+
+  status: {
+    usage: "[status]",
+    description: "Your health, conditions and attributes.",
+    handler: ({ gameSession }) => {
+      const { health, conditions, attributes } = gameSession.gkn.player;
+      const lines = [
+        health ? `Health: ${health.current}/${health.max}` : "",
+        conditions && conditions.length > 0 ? `Conditions: ${conditions.join(", ")}` : "",
+        attributes ? Object.entries(attributes).map(([name, value]) => `${name}: ${value}`).join(", ") : "",
+        gameSession.ending ? `The story is over: ${gameSession.ending.summary}` : "",
+      ].filter(Boolean);
+      return lines.length > 0 ? lines.join("\n") : "This story does not track your condition.";
+    },
+  },
+
+  map: {
+    usage: "[map]",
+    description: "The places you have been and where their exits lead.",
+    handler: async (context) => {
+      const { gkn } = context.gameSession;
+      const visited = await loadVisitedLocationIds(context);
+      const lines: string[] = [];
+      for (const locationId of visited) {
+        const location = gkn.world.locations[locationId];
+        if (!location) {
+          continue;
+        }
+        const marker = locationId === gkn.player.locationId ? " (you are here)" : "";
+        lines.push(`${location.name}${marker}`);
+        for (const [direction, exit] of Object.entries(location.exits)) {
+          const destination = visited.has(exit.toLocationId) ? gkn.world.locations[exit.toLocationId]?.name : "unexplored";
+          lines.push(`  ${direction} -> ${destination}${exit.isLocked ? " (locked)" : ""}`);
+        }
+      }
+      return lines.join("\n");
+    },
+  },
+
+  npcs: {
+    usage: "[npcs]",
+    description: "The people around you.",
+    handler: ({ gameSession }) => {
+      const { gkn } = gameSession;
+      const present = Object.values(gkn.world.npcs).filter((npc) => npc.locationId === gkn.player.locationId);
+      if (present.length === 0) {
+        return "There is no one here.";
+      }
+      // Only what the player can see: name and manner. Agendas, plans and knowledge stay hidden.
+      return present.map((npc) => `- ${npc.name}${npc.personalityTags.length > 0 ? ` (${npc.personalityTags.join(", ")})` : ""}`).join("\n");
+    },
+  },
+
+  recap: {
+    usage: "[recap]",
+    description: "The last few turns and what you have learned.",
+    handler: async (context) => {
+      const snapshot = await context.sessionRef.collection(TURNS_SUBCOLLECTION)
+        .orderBy("turnNumber", "desc")
+        .limit(RECAP_TURNS)
+        .select("turnNumber", "playerInput", "narrative")
+        .get();
+      const turns = snapshot.docs.map((doc) => doc.data() as Pick<TurnRecord, "turnNumber" | "playerInput" | "narrative">).reverse();
+      const story = turns.map((turn) => (turn.playerInput ? `> ${turn.playerInput}\n${turn.narrative}` : turn.narrative));
+
+      const learned = Object.values(context.gameSession.gkn.world.discoverableInfo)
+        .filter((info) => info.isDiscovered)
+        .map((info) => `- ${info.description}`);
+
+      return [
+        story.length > 0 ? story.join("\n\n") : context.gameSession.initialHook,
+        learned.length > 0 ? `What you have learned:\n${learned.join("\n")}` : "You have not learned anything of note yet.",
+      ].join("\n\n");
+    },
+  },
+
+  undo: {
+    usage: "[undo]",
+    description: "Take back your last turn.",
+    handler: async ({ sessionId, gameSession, auth }) => {
+      const turnCount = gameSession.gkn.turnCount;
+      // Undoing a [quit] only takes back the quitting, not the turn before it.
+      if (gameSession.status === "abandoned") {
+        await rewindSessionLogic({ sessionId, turnNumber: turnCount }, auth);
+        return "You pick the story back up where you left it.";
+      }
+      if (turnCount === 0) {
+        return "There is nothing to undo.";
+      }
+      await rewindSessionLogic({ sessionId, turnNumber: turnCount - 1 }, auth);
+      return `Turn ${turnCount} has been undone.`;
+    },
+  },
+
+  quit: {
+    usage: "[quit]",
+    description: "Abandon this story ([undo] picks it back up).",
+    handler: async ({ sessionId, gameSession, auth }) => {
+      if (!isSessionActive(gameSession)) {
+        return "This story is already over.";
+      }
+      const { ending } = await abandonSessionLogic({ sessionId }, auth);
+      return ending.summary;
+    },
+  },
+
+  save: {
+    usage: "[save name]",
+    description: "Save the story so far as a named branch you can return to.",
+    handler: async ({ sessionId, gameSession, auth }, args) => {
+      const branchName = args || `Save at turn ${gameSession.gkn.turnCount}`;
+      const branch = await forkSessionLogic({ sessionId, turnNumber: gameSession.gkn.turnCount, branchName }, auth);
+      return `Saved as "${branch.branchName}". Session ID: ${branch.sessionId}`;
+    },
+  },
+};
+
+export async function runOocCommand(command: OocCommand, context: OocContext): Promise<string> {
+  logger.info(`OOC command '${command.name}' for session ${context.sessionId}.`);
+
+  if (command.name === "debug") {
+    if (!canUseDebugCommands(context.auth)) {
+      return "The [debug] command is not available to you.";
+    }
+    return `--- OOC GKN State Inspector ---\n\n${JSON.stringify(context.gameSession.gkn, null, 2)}`;
+  }
+
+  // Own properties only, so [constructor] or [toString] is just an unknown command.
+  const entry = Object.prototype.hasOwnProperty.call(HANDLERS, command.name) ? HANDLERS[command.name] : undefined;
+  if (!entry) {
+    return `Unknown command [${command.name}]. Type [help] for a list of commands.`;
+  }
+  return await entry.handler(context, command.args);
+}
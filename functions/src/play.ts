@@ -0,0 +1,235 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+// Defaults to the offline mock model and the local Firestore emulator, like the test scripts.
+// With --memory nothing is read from or written to Firestore, like the eval harness.
+const inMemory = process.argv.includes("--memory");
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "mock";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+if (inMemory) {
+  process.env.PROMPT_REGISTRY = process.env.PROMPT_REGISTRY || "builtin";
+} else {
+  process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+}
+
+import * as fs from "fs";
+import * as readline from "readline";
+import { HttpsError } from "firebase-functions/v2/https";
+import { STORY_GENRES, StoryGenre } from "./types/gameState";
+import { getLlmProvider, setLlmProvider } from "./llm";
+import { captureExchanges, LlmExchange } from "./llm/exchangeLog";
+import { totalUsage } from "./llm/usageMeter";
+import { ModelOutputError } from "./llm/structuredOutput";
+import { formatIssues } from "./validation/gknValidator";
+import { renderStoryHtml, renderStoryMarkdown } from "./sessions/storyRender";
+import { diffGkn, formatGknDiff } from "./cli/gknDiff";
+import { captureLogs, LogEntry } from "./cli/logCapture";
+import { PlaySession, resumeFirestoreSession, SessionSource, startFirestoreSession, startMemorySession } from "./cli/playSession";
+
+// Usage: npm run play -- [--memory] [--session <id>] [--scenario <file> [--fill-gaps]] [--bundle <file>]
+//                          [--seed <text>] [--genre <genre>] [--player <name>] [--prompt-set <id>] [--uid <uid>] [--logs]
+//   --memory      keep the session in this process instead of the emulator (no [bracket] commands)
+//   --session     resume a session from the emulator
+//   --bundle      start from a story exported with exportSession (or :export)
+//   --uid         who to play as in the emulator (default: local-cli)
+//   --logs        echo the game's log lines as they happen (they are always kept for :logs)
+// Type an action to play a turn. REPL commands start with a colon; try :help.
+
+const HELP = `REPL commands (anything else is played as a turn; [bracket] commands go to the game):
+  :gkn [path]            the current GKN, or the value at a dotted path (e.g. world.npcs)
+  :diff [turn]           the operations a turn applied and how the GKN changed (default: the last turn)
+  :calls                 the model calls made by the last input played in this run
+  :prompt <n>            the raw prompt of call n
+  :response <n>          the raw reply of call n
+  :timing [turn]         a turn's wall time and each model call's latency and tokens
+  :logs [severity]       the log lines written while playing the last input
+  :transcript            the story so far
+  :export <file>         save the story: .md or .html for reading, anything else as a bundle
+  :help                  this list
+  :quit                  leave (the session stays in the emulator)`;
+
+const MAX_LOG_LINES = 40;
+
+interface LastInput {
+  exchanges: LlmExchange[];
+  logs: LogEntry[];
+  wallMs: number;
+  turnNumber?: number;
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2) ?? "undefined";
+
+function valueAt(value: unknown, path: string): unknown {
+  return path.split(".").filter(Boolean).reduce<unknown>(
+    (current, key) => (typeof current === "object" && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    value,
+  );
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ModelOutputError) {
+    return `${error.message}\n${formatIssues(error.issues)}`;
+  }
+  if (error instanceof HttpsError) {
+    const issues = (error.details as { issues?: Parameters<typeof formatIssues>[0] } | undefined)?.issues;
+    return `${error.code}: ${error.message}${issues ? `\n${formatIssues(issues)}` : ""}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function openSession(args: string[]): Promise<PlaySession> {
+  const promptSet = option(args, "--prompt-set");
+  if (promptSet) {
+    process.env.PROMPT_SET = promptSet;
+  }
+  const auth = { uid: option(args, "--uid") ?? "local-cli" };
+  const sessionId = option(args, "--session");
+  if (sessionId) {
+    if (inMemory) {
+      throw new Error("--session resumes from the emulator; to carry a story into memory, export it and use --bundle.");
+    }
+    return resumeFirestoreSession(sessionId, auth);
+  }
+
+  const scenarioFile = option(args, "--scenario");
+  const bundleFile = option(args, "--bundle");
+  const genre = (option(args, "--genre") ?? "Adventure") as StoryGenre;
+  if (!STORY_GENRES.includes(genre)) {
+    throw new Error(`--genre must be one of: ${STORY_GENRES.join(", ")}.`);
+  }
+  const source: SessionSource = {
+    seed: option(args, "--seed") ?? "A dusty old library with a secret to hide.",
+    genre,
+    playerName: option(args, "--player"),
+    scenarioText: scenarioFile ? fs.readFileSync(scenarioFile, "utf8") : undefined,
+    fillGaps: args.includes("--fill-gaps") ? true : undefined,
+    bundleText: bundleFile ? fs.readFileSync(bundleFile, "utf8") : undefined,
+  };
+  return inMemory ? startMemorySession(source, promptSet) : startFirestoreSession(source, auth);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const logs = captureLogs(args.includes("--logs"));
+  // Every model call goes through this, whichever store plays the turn.
+  const capture = captureExchanges(getLlmProvider());
+  setLlmProvider(capture.provider);
+
+  const session = await openSession(args);
+  const gkn = await session.gkn();
+  console.log(`Session ${session.sessionId} (${session.store}), turn ${gkn.turnCount}, playing ${gkn.player.name} on ${capture.provider.name} (${capture.provider.model}).`);
+  console.log(`Type an action, or :help.\n\n${session.initialHook}\n`);
+
+  let last: LastInput = { exchanges: [...capture.exchanges], logs: [...logs.entries], wallMs: 0 };
+  const lastTurn = async () => last.turnNumber ?? (await session.gkn()).turnCount;
+  const turnArg = async (arg: string | undefined) => (arg === undefined ? lastTurn() : Number(arg));
+
+  const commands: Record<string, (arg: string) => Promise<string> | string> = {
+    help: () => HELP,
+    gkn: async (path) => pretty(path ? valueAt(await session.gkn(), path) : await session.gkn()),
+    diff: async (arg) => {
+      const turnNumber = await turnArg(arg || undefined);
+      const [before, after] = await Promise.all([session.turn(turnNumber - 1), session.turn(turnNumber)]);
+      if (!after || !before) {
+        return `No stored turn ${turnNumber} to compare with the one before it.`;
+      }
+      const operations = after.operations.map((operation) => `  ${JSON.stringify(operation)}`);
+      return [
+        `Turn ${turnNumber}: ${after.playerInput}`,
+        operations.length > 0 ? `Operations:\n${operations.join("\n")}` : "Operations: none",
+        `GKN changes:\n${formatGknDiff(diffGkn(before.gknAfter, after.gknAfter))}`,
+      ].join("\n");
+    },
+    calls: () => last.exchanges.length === 0
+      ? "The last input made no model calls."
+      : last.exchanges.map((call, i) => `${i + 1}. ${call.purpose}${call.streamed ? " (streamed)" : ""}: ${call.latencyMs} ms, ${call.prompt.length} chars in, ${call.response.length} chars out${call.error ? `, failed: ${call.error}` : ""}`).join("\n"),
+    prompt: (arg) => last.exchanges[Number(arg) - 1]?.prompt ?? `No call ${arg}; see :calls.`,
+    response: (arg) => last.exchanges[Number(arg) - 1]?.response ?? `No call ${arg}; see :calls.`,
+    timing: async (arg) => {
+      const turnNumber = await turnArg(arg || undefined);
+      const turn = await session.turn(turnNumber);
+      if (!turn) {
+        return `No stored turn ${turnNumber}.`;
+      }
+      const calls = turn.llmCalls ?? [];
+      const usage = totalUsage(calls);
+      return [
+        `Turn ${turnNumber}: ${turn.latencyMs} ms in the turn${turnNumber === last.turnNumber ? `, ${last.wallMs} ms end to end` : ""}; ${usage.latencyMs} ms waiting on the model.`,
+        ...calls.map((call) => `  ${call.purpose}: ${call.latencyMs} ms, ${call.inputTokens} tokens in, ${call.outputTokens} out${call.estimated ? " (estimated)" : ""}`),
+        `  total: ${usage.calls} calls, ${usage.inputTokens} tokens in, ${usage.outputTokens} out`,
+      ].join("\n");
+    },
+    logs: (severity) => {
+      const entries = last.logs.filter((entry) => !severity || entry.severity === severity.toUpperCase()).slice(-MAX_LOG_LINES);
+      return entries.length === 0 ? "No log lines." : entries.map((entry) => `${entry.severity} ${entry.message}`).join("\n");
+    },
+    transcript: async () => (await session.transcript())
+      .map((turn) => (turn.turnNumber === 0 ? turn.narrative : `> ${turn.actor ? `${turn.actor}: ` : ""}${turn.playerInput}\n${turn.narrative}`))
+      .join("\n\n"),
+    export: async (file) => {
+      if (!file) {
+        return "Usage: :export <file>";
+      }
+      const bundle = await session.bundle();
+      const content = file.endsWith(".md") ? renderStoryMarkdown(bundle)
+        : file.endsWith(".html") ? renderStoryHtml(bundle)
+          : JSON.stringify(bundle, null, 2);
+      fs.writeFileSync(file, content);
+      return `Wrote ${file} (${bundle.turns.length} turns).`;
+    },
+  };
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: "> " });
+  rl.prompt();
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input === ":quit" || input === ":q") {
+      break;
+    }
+    if (input.startsWith(":")) {
+      const [name, ...rest] = input.slice(1).split(/\s+/);
+      const command = Object.prototype.hasOwnProperty.call(commands, name) ? commands[name] : undefined;
+      try {
+        console.log(command ? await command(rest.join(" ")) : `Unknown command ':${name}'. Try :help.`);
+      } catch (error) {
+        console.log(`Error: ${describeError(error)}`);
+      }
+    } else if (input) {
+      capture.exchanges.length = 0;
+      logs.entries.length = 0;
+      const startedAt = Date.now();
+      let streamed = "";
+      try {
+        const result = await session.play(input, (text) => {
+          streamed += text;
+          process.stdout.write(text);
+        });
+        // Only the first attempt streams, so a repaired reply is shown again as committed.
+        if (!streamed) {
+          console.log(`${result.narrative}\n`);
+        } else {
+          console.log(streamed === result.narrative ? "\n" : `\n\n[The reply was repaired. As committed:]\n${result.narrative}\n`);
+        }
+        last = { exchanges: [...capture.exchanges], logs: [...logs.entries], wallMs: Date.now() - startedAt, turnNumber: result.ooc ? undefined : result.turnNumber };
+        if (result.ending) {
+          console.log(`[The story has ended (${result.ending.status}): ${result.ending.summary}]`);
+        }
+      } catch (error) {
+        last = { exchanges: [...capture.exchanges], logs: [...logs.entries], wallMs: Date.now() - startedAt };
+        console.log(`${streamed ? "\n" : ""}Error: ${describeError(error)}`);
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
+
+main().catch((error) => {
+  console.error("The REPL stopped:", describeError(error));
+  process.exitCode = 1;
+});
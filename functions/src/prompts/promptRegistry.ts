@@ -0,0 +1,193 @@
+// File: /src/prompts/promptRegistry.ts
+
+import * as logger from "firebase-functions/logger";
+import { db, PROMPT_SETS_COLLECTION, PROMPT_TEMPLATES_COLLECTION } from "../firebase";
+import { GENRE_ATTRIBUTES, NPC_DISPOSITIONS, NPC_PLAN_STATUSES, PLAYER_ATTRIBUTE_RANGE, STORY_GENRES } from "../types/gameState";
+import { PROMPT_NAMES, PromptName, PromptSet, PromptTemplate } from "../types/prompt";
+import { BUILTIN_PROMPT_SETS, BUILTIN_PROMPT_TEMPLATES } from "./builtinPrompts";
+
+/** The set new sessions use unless PROMPT_SET says otherwise. */
+export const DEFAULT_PROMPT_SET = "v13";
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+/** The templates of one prompt set, ready to render. */
+export interface Prompts {
+  setId: string;
+  /** Renders a template. `genre` picks its genre overlay, if it has any. */
+  render(name: PromptName, variables?: PromptVariables, genre?: string): string;
+}
+
+interface Registry {
+  templates: Map<string, PromptTemplate>;
+  sets: Map<string, PromptSet>;
+}
+
+// Published templates are re-read at most this often per instance.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+let cache: { registry: Registry, loadedAtMs: number } | undefined;
+
+// Renders one of the runtime enum lists from types/gameState.ts as a TypeScript union.
+const toUnion = (values: readonly string[]) => values.map((value) => `'${value}'`).join(" | ");
+
+// Available to every template without being passed in.
+const GLOBAL_VARIABLES: PromptVariables = {
+  npcDispositions: toUnion(NPC_DISPOSITIONS),
+  npcPlanStatuses: toUnion(NPC_PLAN_STATUSES),
+  storyGenres: toUnion(STORY_GENRES),
+  genreAttributes: STORY_GENRES.map((genre) => `//   ${genre}: ${GENRE_ATTRIBUTES[genre].join(", ")}`).join("\n"),
+  attributeMin: PLAYER_ATTRIBUTE_RANGE.min,
+  attributeMax: PLAYER_ATTRIBUTE_RANGE.max,
+};
+
+// A section with its body, or a placeholder. Both are matched in one pass over the
+// template, so text that has already been inserted is never looked at again.
+const TOKEN = /\{\{([#^])([\w.-]+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{(>\s*)?([\w.-]+)\}\}/g;
+
+const templateKey = (name: string, version: string) => `${name}@${version}`;
+
+/**
+ * Fills in a template's sections and placeholders. Values are inserted as they are and
+ * never re-scanned, so player text containing braces cannot inject template syntax.
+ * An unknown placeholder is a bug in the template or its caller, so it throws.
+ */
+export function interpolate(text: string, variables: PromptVariables, include: (name: string) => string = (name) => {
+  throw new Error(`Template includes '${name}', but nothing can be included here.`);
+}): string {
+  const isSet = (key: string) => {
+    const value = variables[key];
+    return value !== undefined && value !== "" && value !== false;
+  };
+  return text.replace(TOKEN, (match, kind: string | undefined, sectionKey: string | undefined, body: string | undefined, partial: string | undefined, key: string) => {
+    if (kind && sectionKey) {
+      // The body is template source, so it is filled in on its own; its output is final.
+      return (kind === "#") === isSet(sectionKey) ? interpolate(body ?? "", variables, include) : "";
+    }
+    if (partial) {
+      return include(key);
+    }
+    const value = variables[key];
+    if (value === undefined) {
+      throw new Error(`Template placeholder ${match} was not given a value.`);
+    }
+    return String(value);
+  });
+}
+
+function isPromptTemplate(value: unknown): value is PromptTemplate {
+  const template = value as PromptTemplate;
+  return !!template && (PROMPT_NAMES as readonly string[]).includes(template.name) &&
+    typeof template.version === "string" && typeof template.text === "string";
+}
+
+function isPromptSet(value: unknown): value is PromptSet {
+  const set = value as PromptSet;
+  return !!set && typeof set.id === "string" && typeof set.templates === "object" && set.templates !== null;
+}
+
+/**
+ * The built-in prompts plus anything published to the `prompt_templates` and `prompt_sets`
+ * collections. Published entries may add versions and sets but never replace a built-in,
+ * so a session's prompts can always be reproduced. Set PROMPT_REGISTRY=builtin to skip
+ * Firestore entirely (e.g. offline tools).
+ */
+async function loadRegistry(): Promise<Registry> {
+  if (cache && Date.now() - cache.loadedAtMs < CACHE_TTL_MS) {
+    return cache.registry;
+  }
+
+  const registry: Registry = {
+    templates: new Map(BUILTIN_PROMPT_TEMPLATES.map((template) => [templateKey(template.name, template.version), template])),
+    sets: new Map(BUILTIN_PROMPT_SETS.map((set) => [set.id, set])),
+  };
+
+  if (process.env.PROMPT_REGISTRY !== "builtin") {
+    try {
+      const [templates, sets] = await Promise.all([
+        db.collection(PROMPT_TEMPLATES_COLLECTION).get(),
+        db.collection(PROMPT_SETS_COLLECTION).get(),
+      ]);
+      for (const doc of templates.docs) {
+        const template = doc.data();
+        const key = isPromptTemplate(template) ? templateKey(template.name, template.version) : undefined;
+        if (!key || registry.templates.has(key)) {
+          logger.warn(`Ignoring published prompt template ${doc.id}: it is malformed or clashes with a built-in.`);
+          continue;
+        }
+        registry.templates.set(key, template as PromptTemplate);
+      }
+      for (const doc of sets.docs) {
+        const set = { ...doc.data(), id: doc.id };
+        if (!isPromptSet(set) || registry.sets.has(set.id)) {
+          logger.warn(`Ignoring published prompt set ${doc.id}: it is malformed or clashes with a built-in.`);
+          continue;
+        }
+        registry.sets.set(set.id, set);
+      }
+    } catch (error) {
+      logger.error("Could not load published prompts; using the built-in ones only.", error);
+    }
+  }
+
+  cache = { registry, loadedAtMs: Date.now() };
+  return registry;
+}
+
+// Follows `extends` to find which version of each template a set uses.
+function resolveSet(registry: Registry, setId: string): Map<PromptName, PromptTemplate> {
+  const chain: PromptSet[] = [];
+  for (let id: string | undefined = setId; id; id = registry.sets.get(id)?.extends) {
+    const set = registry.sets.get(id);
+    if (!set || chain.includes(set)) {
+      throw new Error(`Prompt set '${id}' is unknown or extends itself.`);
+    }
+    chain.push(set);
+  }
+
+  const resolved = new Map<PromptName, PromptTemplate>();
+  for (const name of PROMPT_NAMES) {
+    const version = chain.map((set) => set.templates[name]).find((entry) => entry !== undefined);
+    const template = version !== undefined ? registry.templates.get(templateKey(name, version)) : undefined;
+    if (!template) {
+      throw new Error(`Prompt set '${setId}' has no usable '${name}' template (version ${version ?? "unset"}).`);
+    }
+    resolved.set(name, template);
+  }
+  return resolved;
+}
+
+/**
+ * Loads a prompt set for rendering. Throws if the set, or any template it names, is unknown.
+ */
+export async function loadPrompts(setId: string = DEFAULT_PROMPT_SET): Promise<Prompts> {
+  const templates = resolveSet(await loadRegistry(), setId);
+
+  const render = (name: PromptName, variables: PromptVariables = {}, genre?: string, depth = 0): string => {
+    if (depth > 5) {
+      throw new Error(`Prompt '${name}' in set '${setId}' includes too deeply; check for include loops.`);
+    }
+    const template = templates.get(name) as PromptTemplate;
+    const overlays = template.genreOverlays;
+    const genreOverlay = overlays ? overlays[genre as keyof typeof overlays] ?? overlays.default ?? "" : "";
+    return interpolate(template.text, { ...GLOBAL_VARIABLES, genreOverlay, ...variables }, (included) => {
+      if (!(PROMPT_NAMES as readonly string[]).includes(included)) {
+        throw new Error(`Prompt '${name}' includes unknown template '${included}'.`);
+      }
+      return render(included as PromptName, variables, genre, depth + 1);
+    });
+  };
+
+  return { setId, render: (name, variables, genre) => render(name, variables, genre) };
+}
+
+/**
+ * Picks the prompt set for a new session. PROMPT_SET names the default; for an A/B test,
+ * PROMPT_SET_CANDIDATE names a second set and PROMPT_SET_CANDIDATE_SHARE (0-1) the share
+ * of new sessions that get it. A session keeps its set for every later turn.
+ */
+export function choosePromptSet(random: () => number = Math.random): string {
+  const baseline = process.env.PROMPT_SET || DEFAULT_PROMPT_SET;
+  const candidate = process.env.PROMPT_SET_CANDIDATE;
+  const share = Number(process.env.PROMPT_SET_CANDIDATE_SHARE ?? 0);
+  return candidate && share > 0 && random() < share ? candidate : baseline;
+}
@@ -0,0 +1,73 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+// Defaults to the offline mock model. Nothing is read from or written to Firestore:
+// playthroughs run in memory and only the built-in prompts are used unless told otherwise.
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "mock";
+process.env.PROMPT_REGISTRY = process.env.PROMPT_REGISTRY || "builtin";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as fs from "fs";
+import * as path from "path";
+import { getLlmProvider } from "./llm";
+import { DEFAULT_PROMPT_SET, loadPrompts } from "./prompts/promptRegistry";
+import { parseScenarioText } from "./scenarios/scenarioLoader";
+import { Playthrough, runPlaythrough } from "./eval/playthroughRunner";
+import { buildEvalReport, renderEvalReportHtml } from "./eval/evalReport";
+
+// Usage: npm run eval -- [file.json|dir ...] [--prompt-set <id>] [--out <path>]
+//   Replays each playthrough (default: every file in evals/) against LLM_PROVIDER / LLM_MODEL
+//   and writes <out>.json and <out>.html (default: eval-report). Exits non-zero if any check failed.
+function readPlaythroughs(targets: string[]): Playthrough[] {
+  const files = targets.flatMap((target) => (fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter((name) => name.endsWith(".json")).sort().map((name) => path.join(target, name))
+    : [target]));
+
+  return files.map((file) => {
+    const playthrough = JSON.parse(fs.readFileSync(file, "utf8")) as Playthrough;
+    // A string scenario is a path to a scenario file, relative to the playthrough.
+    if (typeof playthrough.scenario === "string") {
+      playthrough.scenario = parseScenarioText(fs.readFileSync(path.resolve(path.dirname(file), playthrough.scenario), "utf8"));
+    }
+    return playthrough;
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const promptSet = option("--prompt-set") ?? DEFAULT_PROMPT_SET;
+  const out = option("--out") ?? "eval-report";
+  const targets = args.filter((arg, i) => !arg.startsWith("--") && !["--prompt-set", "--out"].includes(args[i - 1]));
+
+  const provider = getLlmProvider();
+  const prompts = await loadPrompts(promptSet);
+  const playthroughs = readPlaythroughs(targets.length > 0 ? targets : [path.join(__dirname, "../evals")]);
+
+  const results = [];
+  for (const playthrough of playthroughs) {
+    console.log(`Playing ${playthrough.id} (${playthrough.inputs.length} inputs)...`);
+    const result = await runPlaythrough(playthrough, { provider, prompts });
+    const failed = result.turns.flatMap((turn) => turn.checks.filter((check) => !check.passed).map((check) => `  turn ${turn.turnNumber} ${check.check}: ${check.detail ?? ""}`));
+    console.log(result.error ? `  ${result.error}` : `  ${result.turns.length} turns, ${failed.length} failed checks`);
+    failed.forEach((line) => console.log(line));
+    results.push(result);
+  }
+
+  const report = buildEvalReport(results, { provider: provider.name, name: provider.model }, prompts.setId);
+  fs.writeFileSync(`${out}.json`, JSON.stringify(report, null, 2));
+  fs.writeFileSync(`${out}.html`, renderEvalReportHtml(report));
+  console.log(`\n${report.summary.failedChecks} of ${report.summary.checks} checks failed. Report: ${out}.json, ${out}.html`);
+
+  if (report.summary.failedChecks > 0 || results.some((result) => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Eval run failed:", error);
+  process.exitCode = 1;
+});
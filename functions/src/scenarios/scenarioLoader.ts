@@ -0,0 +1,294 @@
+// File: /src/scenarios/scenarioLoader.ts
+
+import * as logger from "firebase-functions/logger";
+import { parse as parseYaml } from "yaml";
+import { GameState, PlayerCharacter, STORY_GENRES, StoryGenre } from "../types/gameState";
+import { Scenario, SCENARIO_FORMAT_VERSION, ScenarioReference } from "../types/scenario";
+import { LlmProvider } from "../llm/provider";
+import { generateValidatedJson } from "../llm/structuredOutput";
+import { Prompts } from "../prompts/promptRegistry";
+import { applyPlayerStatDefaults } from "../engine/playerStats";
+import { formatIssues, validateGkn, ValidationIssue } from "../validation/gknValidator";
+
+type Json = Record<string, unknown>;
+
+/** A scenario's hook and GKN while they are being defaulted and filled in. */
+type FillTarget = { initialHook?: string, gkn: Json };
+
+/**
+ * A descriptive field left blank: `path` is how the model sees it, and `keys` reach it
+ * without splitting the path, since IDs may contain dots.
+ */
+interface Gap {
+  path: string;
+  keys: string[];
+}
+
+/**
+ * Raised when a scenario file cannot be used as written. `issues` lists every problem,
+ * in the same shape as the GKN validator's.
+ */
+export class ScenarioValidationError extends Error {
+  constructor(message: string, readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = "ScenarioValidationError";
+  }
+}
+
+export interface PreparedScenario {
+  gkn: GameState["gkn"];
+  initialHook: string;
+  reference: ScenarioReference;
+  /** The paths the model wrote, if any. */
+  filledGaps: string[];
+}
+
+// Descriptive fields the model may write when `fillGaps` is on, relative to each entity.
+const FILLABLE_NPC_FIELDS = ["motivations", "personalityTags", "speechStyleCues", "agenda", "disposition"];
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const fieldOf = (value: unknown, key: string): unknown => (isObject(value) ? value[key] : undefined);
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Reads a scenario from JSON or YAML text. JSON is tried first, since it is also valid YAML
+ * but gives better error messages when it is broken.
+ */
+export function parseScenarioText(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    return JSON.parse(trimmed);
+  }
+  return parseYaml(trimmed);
+}
+
+/**
+ * Checks the containers {@link applyDefaults} writes into, so a malformed file (a string
+ * where the player should be) is reported instead of failing halfway through. Everything
+ * finer is left to the GKN validator.
+ */
+function shapeIssues(gkn: Json): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const expectObject = (value: unknown, path: string) => {
+    if (value !== undefined && value !== null && !isObject(value)) {
+      issues.push({ path, message: "must be an object" });
+    }
+  };
+
+  expectObject(gkn.player, "gkn.player");
+  expectObject(fieldOf(gkn.player, "attributes"), "gkn.player.attributes");
+  expectObject(gkn.world, "gkn.world");
+  const world = gkn.world;
+  if (isObject(world)) {
+    for (const field of ["locations", "items", "npcs", "discoverableInfo", "storyFlags", "fluidCountdown"]) {
+      expectObject(world[field], `gkn.world.${field}`);
+    }
+    if (world.genre !== undefined && !(STORY_GENRES as readonly unknown[]).includes(world.genre)) {
+      issues.push({ path: "gkn.world.genre", message: `must be one of ${STORY_GENRES.map((genre) => `'${genre}'`).join(", ")}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Fills in the containers authors are allowed to leave out, so a minimal file
+ * does not have to spell out every empty list and map. {@link shapeIssues} must pass first.
+ */
+function applyDefaults(gkn: Json): void {
+  gkn.turnCount ??= 0;
+  const player = (gkn.player ??= {}) as Json;
+  player.inventory ??= [];
+  const world = (gkn.world ??= {}) as Json;
+  world.locations ??= {};
+  world.items ??= {};
+  world.npcs ??= {};
+  world.discoverableInfo ??= {};
+  world.storyFlags ??= {};
+  const countdown = (world.fluidCountdown ??= {}) as Json;
+  countdown.currentStage ??= 0;
+  applyPlayerStatDefaults(player as unknown as PlayerCharacter, world.genre as StoryGenre);
+
+  for (const [id, location] of Object.entries(world.locations as Json)) {
+    if (isObject(location)) {
+      location.id ??= id;
+      location.exits ??= {};
+      location.items ??= [];
+    }
+  }
+  for (const [id, item] of Object.entries(world.items as Json)) {
+    if (isObject(item)) {
+      item.id ??= id;
+    }
+  }
+  for (const [id, npc] of Object.entries(world.npcs as Json)) {
+    if (isObject(npc)) {
+      npc.id ??= id;
+      npc.isKeyNpc ??= false;
+      npc.knowledge ??= {};
+    }
+  }
+  for (const info of Object.values(world.discoverableInfo as Json)) {
+    if (isObject(info)) {
+      info.isDiscovered ??= false;
+    }
+  }
+}
+
+/**
+ * The descriptive fields left blank in the scenario, with paths such as
+ * `gkn.world.npcs.archivist.speechStyleCues` or `initialHook`.
+ */
+function findGaps(target: FillTarget): Gap[] {
+  const gaps: Gap[] = [];
+  const world = target.gkn.world as Json;
+  const check = (value: unknown, ...keys: string[]) => {
+    if (isMissing(value)) {
+      gaps.push({ path: keys.join("."), keys });
+    }
+  };
+
+  check(target.initialHook, "initialHook");
+  check(world.coreConflict, "gkn", "world", "coreConflict");
+  check(fieldOf(world.fluidCountdown, "description"), "gkn", "world", "fluidCountdown", "description");
+  check(fieldOf(world.fluidCountdown, "stages"), "gkn", "world", "fluidCountdown", "stages");
+  for (const [id, location] of Object.entries(world.locations as Json)) {
+    check(fieldOf(location, "description"), "gkn", "world", "locations", id, "description");
+  }
+  for (const [id, item] of Object.entries(world.items as Json)) {
+    check(fieldOf(item, "description"), "gkn", "world", "items", id, "description");
+  }
+  for (const [id, npc] of Object.entries(world.npcs as Json)) {
+    FILLABLE_NPC_FIELDS.forEach((field) => check(fieldOf(npc, field), "gkn", "world", "npcs", id, field));
+  }
+  for (const [id, info] of Object.entries(world.discoverableInfo as Json)) {
+    check(fieldOf(info, "description"), "gkn", "world", "discoverableInfo", id, "description");
+  }
+  return gaps;
+}
+
+function setPath(target: Json, keys: string[], value: unknown): void {
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node = node[key] as Json;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+
+/**
+ * Asks the model to write only the missing descriptive fields. The reply is checked
+ * path by path, and the completed world must pass the full GKN validator.
+ */
+async function fillGaps(scenario: Scenario, target: FillTarget, gaps: Gap[], provider: LlmProvider, prompts: Prompts): Promise<FillTarget> {
+  const complete = (fills: Json): FillTarget => {
+    const filled = JSON.parse(JSON.stringify(target)) as FillTarget;
+    for (const gap of gaps) {
+      setPath(filled, gap.keys, fills[gap.path]);
+    }
+    return filled;
+  };
+
+  const reply = await generateValidatedJson<{ fills: Json }>(
+    provider,
+    {
+      purpose: "scenario-fill",
+      prompt: prompts.render("scenario-fill", {
+        genre: scenario.gkn.world?.genre,
+        scenario: JSON.stringify(target, null, 2),
+        gaps: JSON.stringify(gaps.map((gap) => gap.path)),
+      }, scenario.gkn.world?.genre),
+    },
+    (value) => {
+      if (!isObject(value) || !isObject(value.fills)) {
+        return [{ path: "fills", message: "must be an object keyed by gap path" }];
+      }
+      const fills = value.fills;
+      const issues: ValidationIssue[] = [];
+      gaps.filter((gap) => isMissing(fills[gap.path])).forEach(({ path }) => issues.push({ path, message: "was not filled" }));
+      Object.keys(fills).filter((path) => !gaps.some((gap) => gap.path === path)).forEach((path) => issues.push({ path, message: "is not a gap; do not change it" }));
+      if (issues.length > 0) {
+        return issues;
+      }
+      const filled = complete(fills);
+      return validateGkn(filled.gkn).issues.map((issue) => ({ ...issue, path: `gkn.${issue.path}` }));
+    },
+  );
+
+  return complete(reply.fills);
+}
+
+/**
+ * Checks a parsed scenario file and turns it into a GKN-0 and opening hook. Gaps are
+ * filled by the model only when the scenario (or the caller) asks for it; otherwise
+ * they are reported as errors alongside any schema or reference problems.
+ */
+export async function prepareScenario(raw: unknown, options: { fillGaps?: boolean, playerName?: string, provider?: LlmProvider, prompts?: Prompts } = {}): Promise<PreparedScenario> {
+  if (!isObject(raw)) {
+    throw new ScenarioValidationError("A scenario must be a JSON or YAML object.", [{ path: "(root)", message: "must be an object" }]);
+  }
+
+  const headerIssues: ValidationIssue[] = [];
+  if (raw.formatVersion !== SCENARIO_FORMAT_VERSION) {
+    headerIssues.push({ path: "formatVersion", message: `must be ${SCENARIO_FORMAT_VERSION} (got ${JSON.stringify(raw.formatVersion)})` });
+  }
+  if (typeof raw.id !== "string" || !raw.id) {
+    headerIssues.push({ path: "id", message: "must be a non-empty string" });
+  }
+  if (typeof raw.title !== "string" || !raw.title) {
+    headerIssues.push({ path: "title", message: "must be a non-empty string" });
+  }
+  if (!isObject(raw.gkn)) {
+    headerIssues.push({ path: "gkn", message: "must be an object" });
+  }
+  if (headerIssues.length > 0) {
+    throw new ScenarioValidationError(`Invalid scenario:\n${formatIssues(headerIssues)}`, headerIssues);
+  }
+
+  const scenario = JSON.parse(JSON.stringify(raw)) as Scenario;
+  const target: FillTarget = { initialHook: scenario.initialHook, gkn: scenario.gkn as unknown as Json };
+  const shape = shapeIssues(target.gkn);
+  if (shape.length > 0) {
+    throw new ScenarioValidationError(`Invalid scenario '${scenario.id}':\n${formatIssues(shape)}`, shape);
+  }
+  applyDefaults(target.gkn);
+  if (options.playerName) {
+    (target.gkn.player as Json).name = options.playerName;
+  }
+
+  const gaps = findGaps(target);
+  const wantsFill = options.fillGaps ?? scenario.fillGaps ?? false;
+
+  // Structural problems are reported before anything is sent to the model. Gaps are
+  // excluded here, since a blank field is expected to fail validation until filled.
+  const structuralIssues = validateGkn(target.gkn).issues
+    .map((issue) => ({ ...issue, path: `gkn.${issue.path}` }))
+    .filter((issue) => !gaps.some(({ path }) => issue.path === path || issue.path.startsWith(`${path}[`)));
+  const gapIssues = wantsFill ? [] : gaps.map(({ path }) => ({ path, message: "is missing (author it, or enable fillGaps to let the model write it)" }));
+  const issues = [...gapIssues, ...structuralIssues];
+  if (issues.length > 0) {
+    throw new ScenarioValidationError(`Invalid scenario '${scenario.id}':\n${formatIssues(issues)}`, issues);
+  }
+
+  let completed = target;
+  if (gaps.length > 0) {
+    if (!options.provider || !options.prompts) {
+      throw new ScenarioValidationError("This scenario has gaps to fill but no model provider or prompts were given.", gaps.map(({ path }) => ({ path, message: "is missing" })));
+    }
+    logger.info(`Filling ${gaps.length} gaps in scenario '${scenario.id}'.`, { gaps: gaps.map((gap) => gap.path) });
+    completed = await fillGaps(scenario, target, gaps, options.provider, options.prompts);
+  }
+
+  return {
+    gkn: completed.gkn as unknown as GameState["gkn"],
+    // A missing hook is a gap, so by now it has been authored or filled.
+    initialHook: completed.initialHook as string,
+    reference: { id: scenario.id, title: scenario.title, version: scenario.version, formatVersion: scenario.formatVersion },
+    filledGaps: gaps.map((gap) => gap.path),
+  };
+}
@@ -0,0 +1,73 @@
+// File: /src/sessions/createSession.ts
+
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { TurnRecord } from "../types/turnRecord";
+import { LlmCallUsage } from "../types/usage";
+import { totalUsage } from "../llm/usageMeter";
+import { userUsageWrites } from "../usage/usageLedger";
+import { AuthContext } from "./sessionAccess";
+import { turnRef } from "./turnHistory";
+
+/**
+ * Writes a new session together with its turn 0 record, whichever way its GKN-0 was made,
+ * and adds the model calls that made it to the owner's usage. `extra` carries optional
+ * session fields such as the scenario it came from.
+ */
+export async function saveNewSession(options: {
+  gkn: GameState["gkn"],
+  initialHook: string,
+  owner: AuthContext,
+  model: TurnRecord["model"],
+  promptSet: string,
+  latencyMs: number,
+  llmCalls: LlmCallUsage[],
+  extra?: Partial<GameState>,
+}): Promise<string> {
+  try {
+    const newSessionRef = db.collection(SESSIONS_COLLECTION).doc();
+    const sessionId = newSessionRef.id;
+    const usage = totalUsage(options.llmCalls);
+
+    const newSession: GameState = {
+      ...options.extra,
+      sessionId: sessionId,
+      userId: options.owner.uid,
+      initialHook: options.initialHook,
+      gkn: options.gkn,
+      createdWithPromptSet: options.promptSet,
+      promptSet: options.promptSet,
+      status: "active",
+      usage,
+      lastModified: new Date(),
+    };
+
+    const turnZero: TurnRecord = {
+      turnNumber: 0,
+      playerInput: "",
+      narrative: options.initialHook,
+      operations: [],
+      gknAfter: options.gkn,
+      model: options.model,
+      promptSet: options.promptSet,
+      latencyMs: options.latencyMs,
+      llmCalls: options.llmCalls,
+      usage,
+      createdAt: new Date(),
+    };
+
+    const batch = db.batch();
+    batch.set(newSessionRef, newSession);
+    batch.set(turnRef(newSessionRef, 0), turnZero);
+    userUsageWrites(options.owner.uid, usage, { sessionsCreated: 1 }).forEach(({ ref, data }) => batch.set(ref, data, { merge: true }));
+    await batch.commit();
+    logger.info(`New game session created with ID: ${sessionId}`);
+    return sessionId;
+
+  } catch (error) {
+    logger.error("Error saving new game session to Firestore:", error);
+    throw new HttpsError("internal", "Failed to save new game session.", error);
+  }
+}
@@ -0,0 +1,198 @@
+// File: /src/sessions/multiplayer.ts
+
+import * as crypto from "crypto";
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState, MultiplayerSettings, SessionMember, TURN_MODES, TurnMode } from "../types/gameState";
+import { AuthContext, assertIsSessionOwner, loadSessionForUser, requireCaller } from "./sessionAccess";
+import { isSessionActive, storyEndedError } from "./sessionStatus";
+
+// A shared world has one owner (who created it) and up to MAX_PARTY_SIZE members in all,
+// each playing their own character. Members join with an invite code; only its hash is
+// stored. Characters are added to the GKN lazily, the first time a turn is played after
+// someone joins (see engine/party.ts), so rewinding past a join is harmless.
+
+const MAX_PARTY_SIZE = 6;
+// No 0/O or 1/I/L, so codes survive being read aloud or copied by hand.
+const INVITE_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const INVITE_CODE_LENGTH = 8;
+
+const hashInviteCode = (code: string) => crypto.createHash("sha256").update(code.toUpperCase().replace(/[^0-9A-Z]/g, "")).digest("hex");
+
+function newInviteCode(): string {
+  return Array.from(crypto.randomBytes(INVITE_CODE_LENGTH), (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join("");
+}
+
+/** One player's input for a turn. `member` is set in shared worlds. */
+export interface TurnAction {
+  playerInput: string;
+  requestId: string;
+  member?: SessionMember;
+}
+
+// Field paths (e.g. "multiplayer.pendingActions") to write on the session document.
+type SessionUpdates = FirebaseFirestore.DocumentData;
+
+export type TurnClaim =
+  | { kind: "play"; actions: TurnAction[]; updates: SessionUpdates }
+  | { kind: "waiting"; waitingFor: string[]; updates: SessionUpdates };
+
+/**
+ * Decides what an incoming action does, inside the turn lease transaction. Solo sessions
+ * just play it. In round-robin mode only the member whose turn it is may act. In
+ * collect-all mode the action is queued, and once every member has one queued, the
+ * whole round is played in member order. `updates` must be written with the lease.
+ */
+export function claimTurn(gameSession: GameState, auth: AuthContext | undefined, action: { playerInput: string, requestId: string }): TurnClaim {
+  const shared = gameSession.multiplayer;
+  if (!shared) {
+    return { kind: "play", actions: [action], updates: {} };
+  }
+  const member = shared.members.find((entry) => entry.uid === auth?.uid);
+  if (!member) {
+    throw new HttpsError("permission-denied", "You are not a player in this session.");
+  }
+
+  if (shared.mode === "round-robin") {
+    const next = shared.members[shared.nextMemberIndex % shared.members.length];
+    if (next.uid !== member.uid) {
+      throw new HttpsError("failed-precondition", `It is ${next.characterName}'s turn.`, { nextCharacter: next.characterName });
+    }
+    return { kind: "play", actions: [{ ...action, member }], updates: {} };
+  }
+
+  // A member may change their mind until the round is resolved; the latest action counts.
+  const pending = { ...shared.pendingActions, [member.characterId]: { ...action, submittedAt: new Date() } };
+  const updates = { "multiplayer.pendingActions": pending };
+  const waitingFor = shared.members.filter((entry) => !pending[entry.characterId]);
+  if (waitingFor.length > 0) {
+    return { kind: "waiting", waitingFor: waitingFor.map((entry) => entry.characterName), updates };
+  }
+  return {
+    kind: "play",
+    actions: shared.members.map((entry) => ({ playerInput: pending[entry.characterId].playerInput, requestId: pending[entry.characterId].requestId, member: entry })),
+    updates,
+  };
+}
+
+/** What committing a round changes in a shared session's settings: the next player, or an empty queue. */
+export function afterRoundUpdates(gameSession: GameState): SessionUpdates {
+  const shared = gameSession.multiplayer;
+  if (!shared) {
+    return {};
+  }
+  return shared.mode === "round-robin"
+    ? { "multiplayer.nextMemberIndex": (shared.nextMemberIndex + 1) % shared.members.length }
+    : { "multiplayer.pendingActions": {} };
+}
+
+// ==========================================================================================
+// OPEN TO OTHER PLAYERS
+// ==========================================================================================
+/**
+ * Turns a session into a shared world, or changes how an already shared one takes turns.
+ * Returns a fresh invite code each time (earlier codes stop working); pass
+ * `invites: false` to close the session to new players instead.
+ */
+export async function openSessionLogic(data: { sessionId: string, mode?: TurnMode, invites?: boolean }, auth?: AuthContext) {
+  const { sessionId, mode = "round-robin", invites = true } = data ?? {};
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId'.");
+  }
+  if (!(TURN_MODES as readonly string[]).includes(mode)) {
+    throw new HttpsError("invalid-argument", `'mode' must be one of ${TURN_MODES.join(", ")}.`);
+  }
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+  assertIsSessionOwner(gameSession, auth);
+  if (!isSessionActive(gameSession)) {
+    throw storyEndedError(gameSession);
+  }
+
+  const inviteCode = invites ? newInviteCode() : null;
+  const multiplayer: MultiplayerSettings = gameSession.multiplayer ?? {
+    mode,
+    members: [{ uid: gameSession.userId, characterId: "player1", characterName: gameSession.gkn.player.name, joinedAt: new Date() }],
+    inviteCodeHash: null,
+    nextMemberIndex: 0,
+    pendingActions: {},
+  };
+  // Switching modes starts the turn order afresh, so no queued action is left half-resolved.
+  const modeChanged = multiplayer.mode !== mode;
+  await sessionRef.update({
+    multiplayer: {
+      ...multiplayer,
+      mode,
+      inviteCodeHash: inviteCode ? hashInviteCode(inviteCode) : null,
+      nextMemberIndex: modeChanged ? 0 : multiplayer.nextMemberIndex,
+      pendingActions: modeChanged ? {} : multiplayer.pendingActions,
+    },
+  });
+
+  logger.info(`Session ${sessionId} is shared in ${mode} mode; invites ${invites ? "open" : "closed"}.`);
+  return { sessionId, mode, inviteCode, members: multiplayer.members.map((member) => member.characterName) };
+}
+
+// ==========================================================================================
+// JOIN
+// ==========================================================================================
+/**
+ * Joins a shared world by invite code, with a new character called `playerName`. Joining
+ * a session you are already in just returns it.
+ */
+export async function joinSessionLogic(data: { inviteCode: string, playerName?: string }, auth?: AuthContext) {
+  const caller = requireCaller(auth);
+  const { inviteCode, playerName } = data ?? {};
+  if (!inviteCode || typeof inviteCode !== "string") {
+    throw new HttpsError("invalid-argument", "The function must be called with an 'inviteCode'.");
+  }
+
+  const matches = await db.collection(SESSIONS_COLLECTION).where("multiplayer.inviteCodeHash", "==", hashInviteCode(inviteCode)).limit(1).get();
+  if (matches.empty) {
+    throw new HttpsError("not-found", "That invite code is not valid. Ask for a new one.");
+  }
+  const sessionRef = matches.docs[0].ref;
+
+  const member = await db.runTransaction(async (tx) => {
+    const gameSession = (await tx.get(sessionRef)).data() as GameState;
+    const shared = gameSession.multiplayer;
+    if (!shared || shared.inviteCodeHash !== hashInviteCode(inviteCode)) {
+      throw new HttpsError("not-found", "That invite code is not valid. Ask for a new one.");
+    }
+    const existing = shared.members.find((entry) => entry.uid === caller.uid);
+    if (existing) {
+      return existing;
+    }
+    if (!isSessionActive(gameSession)) {
+      throw storyEndedError(gameSession);
+    }
+    if (shared.members.length >= MAX_PARTY_SIZE) {
+      throw new HttpsError("resource-exhausted", `This world already has ${MAX_PARTY_SIZE} players.`);
+    }
+
+    const taken = new Set(shared.members.map((entry) => entry.characterId));
+    let index = shared.members.length + 1;
+    while (taken.has(`player${index}`)) {
+      index++;
+    }
+    const joined: SessionMember = {
+      uid: caller.uid,
+      characterId: `player${index}`,
+      characterName: (playerName || "").trim() || `Stranger ${index}`,
+      joinedAt: new Date(),
+    };
+    tx.update(sessionRef, { "multiplayer.members": [...shared.members, joined], "lastModified": new Date() });
+    return joined;
+  });
+
+  const gameSession = (await sessionRef.get()).data() as GameState;
+  logger.info(`${member.characterName} joined session ${sessionRef.id}.`);
+  return {
+    sessionId: sessionRef.id,
+    characterId: member.characterId,
+    characterName: member.characterName,
+    mode: gameSession.multiplayer?.mode,
+    initialHook: gameSession.initialHook,
+    turnNumber: gameSession.gkn.turnCount,
+  };
+}
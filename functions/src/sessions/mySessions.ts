@@ -0,0 +1,77 @@
+// File: /src/sessions/mySessions.ts
+
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSION_VIEWS_COLLECTION, TURN_REQUESTS_SUBCOLLECTION, TURNS_SUBCOLLECTION } from "../firebase";
+import { SESSION_STATUSES, SessionStatus } from "../types/gameState";
+import { SessionView } from "../types/sessionView";
+import { AuthContext, assertIsSessionOwner, loadSessionForUser, requireCaller } from "./sessionAccess";
+
+// Firestore allows 500 writes per batch; stay comfortably below it.
+const BATCH_LIMIT = 400;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// ==========================================================================================
+// LIST
+// ==========================================================================================
+/**
+ * The caller's sessions, including shared worlds they joined, most recently played
+ * first, as player-safe views. This is the only way for anonymous players to find their
+ * sessions, since they cannot query `session_views` directly. Views are kept up to date by a trigger, so a session written
+ * a moment ago may be missing or a turn behind.
+ */
+export async function listMySessionsLogic(data: { status?: SessionStatus, limit?: number }, auth?: AuthContext) {
+  const caller = requireCaller(auth);
+  const { status, limit = DEFAULT_LIST_LIMIT } = data ?? {};
+  if (status !== undefined && !(SESSION_STATUSES as readonly string[]).includes(status)) {
+    throw new HttpsError("invalid-argument", `'status' must be one of ${SESSION_STATUSES.join(", ")}.`);
+  }
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new HttpsError("invalid-argument", `'limit' must be an integer between 1 and ${MAX_LIST_LIMIT}.`);
+  }
+
+  let query = db.collection(SESSION_VIEWS_COLLECTION).where("memberIds", "array-contains", caller.uid);
+  if (status) {
+    query = query.where("status", "==", status);
+  }
+  const snapshot = await query.orderBy("lastModifiedMs", "desc").limit(limit).get();
+  return { sessions: snapshot.docs.map((doc) => doc.data() as SessionView) };
+}
+
+// ==========================================================================================
+// DELETE
+// ==========================================================================================
+/**
+ * Deletes a session with all of its turns and idempotency records. Forks are separate
+ * sessions and are kept. Refused while a turn is in progress, since the turn would
+ * otherwise be written into a session that no longer exists.
+ */
+export async function deleteSessionLogic(data: { sessionId: string }, auth?: AuthContext) {
+  const { sessionId } = data ?? {};
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId'.");
+  }
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+  assertIsSessionOwner(gameSession, auth);
+  if (gameSession.turnLease && gameSession.turnLease.expiresAtMs > Date.now()) {
+    throw new HttpsError("aborted", "A turn is being processed for this session. Try again once it has finished.");
+  }
+
+  // The session document goes last, so a half-deleted session is still listed and can be retried.
+  const turns = await sessionRef.collection(TURNS_SUBCOLLECTION).select().get();
+  const requests = await sessionRef.collection(TURN_REQUESTS_SUBCOLLECTION).select().get();
+  const children = [...turns.docs, ...requests.docs];
+  for (let i = 0; i < children.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    children.slice(i, i + BATCH_LIMIT).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+  const batch = db.batch();
+  batch.delete(sessionRef);
+  batch.delete(db.collection(SESSION_VIEWS_COLLECTION).doc(sessionId));
+  await batch.commit();
+
+  logger.info(`Deleted session ${sessionId} and ${turns.size} turns.`);
+  return { sessionId, deletedTurns: turns.size };
+}
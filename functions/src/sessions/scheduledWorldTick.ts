@@ -0,0 +1,88 @@
+// File: /src/sessions/scheduledWorldTick.ts
+
+import * as logger from "firebase-functions/logger";
+import { db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { getLlmProvider } from "../llm";
+import { runWorldTick } from "../engine/worldTick";
+import { isSessionActive } from "./sessionStatus";
+import { DEFAULT_PROMPT_SET, loadPrompts } from "../prompts/promptRegistry";
+import { meterUsage, totalUsage } from "../llm/usageMeter";
+import { getQuotaConfig, sessionTokens } from "../usage/quotas";
+import { recordUnsavedUsage, sessionUsageUpdates, userUsageWrites } from "../usage/usageLedger";
+
+// Only sessions played recently keep ticking, and each at most once per interval.
+const ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MIN_TICK_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_SESSIONS_PER_RUN = 50;
+
+/**
+ * Ticks the world of recently active sessions while their players are away. The GKN is
+ * updated in place (no turn record is written), and the events are queued on the session
+ * as `pendingWorldEvents` for the next turn to narrate.
+ *
+ * The tick is computed outside a transaction and only written if the session has not
+ * moved on in the meantime and no turn is in progress; otherwise it is dropped. Either
+ * way its model calls count towards the session's and its owner's usage, and sessions
+ * over their token budget are not ticked at all.
+ */
+export async function runScheduledWorldTicks(): Promise<{ ticked: number, skipped: number }> {
+  const now = Date.now();
+  const snapshot = await db.collection(SESSIONS_COLLECTION)
+    .where("lastModified", ">=", new Date(now - ACTIVE_WINDOW_MS))
+    .limit(MAX_SESSIONS_PER_RUN)
+    .get();
+
+  const quotas = getQuotaConfig();
+  let ticked = 0;
+  let skipped = 0;
+
+  for (const doc of snapshot.docs) {
+    const gameSession = doc.data() as GameState;
+    // A finished story's world stays as it was left.
+    const overBudget = quotas.maxTokensPerSession > 0 && sessionTokens(gameSession) >= quotas.maxTokensPerSession;
+    if (!isSessionActive(gameSession) || overBudget || (gameSession.worldClock?.lastTickAtMs ?? 0) > now - MIN_TICK_INTERVAL_MS) {
+      skipped++;
+      continue;
+    }
+
+    const { provider, calls } = meterUsage(getLlmProvider());
+    try {
+      const turnCount = gameSession.gkn.turnCount;
+      const prompts = await loadPrompts(gameSession.promptSet ?? DEFAULT_PROMPT_SET);
+      const tick = await runWorldTick(gameSession.gkn, gameSession.worldClock, turnCount, provider, prompts);
+
+      const usage = totalUsage(calls);
+      const written = await db.runTransaction(async (tx) => {
+        const current = (await tx.get(doc.ref)).data() as GameState | undefined;
+        const leased = current?.turnLease && current.turnLease.expiresAtMs > Date.now();
+        if (!current || leased || !isSessionActive(current) || current.gkn.turnCount !== turnCount) {
+          return false;
+        }
+        // lastModified is left alone so idle sessions age out of the active window.
+        tx.update(doc.ref, {
+          gkn: tick.gkn,
+          worldClock: tick.clock,
+          pendingWorldEvents: [...(current.pendingWorldEvents ?? []), ...tick.events],
+          ...sessionUsageUpdates(usage),
+        });
+        userUsageWrites(current.userId, usage).forEach(({ ref, data }) => tx.set(ref, data, { merge: true }));
+        return true;
+      });
+
+      if (written) {
+        ticked++;
+      } else {
+        await recordUnsavedUsage(doc.ref, gameSession.userId, usage);
+        skipped++;
+      }
+    } catch (error) {
+      logger.error(`Scheduled world tick failed for session ${doc.id}.`, error);
+      await recordUnsavedUsage(doc.ref, gameSession.userId, totalUsage(calls));
+      skipped++;
+    }
+  }
+
+  logger.info(`Scheduled world tick: ${ticked} sessions ticked, ${skipped} skipped.`);
+  return { ticked, skipped };
+}
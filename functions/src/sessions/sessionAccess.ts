@@ -0,0 +1,130 @@
+// File: /src/sessions/sessionAccess.ts
+
+import * as crypto from "crypto";
+import { HttpsError } from "firebase-functions/v2/https";
+import { adminAuth, db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+
+/**
+ * The parts of a callable request's auth that the game logic looks at.
+ * `token` carries custom claims such as `admin`.
+ */
+export interface AuthContext {
+  uid: string;
+  token?: Record<string, unknown>;
+}
+
+// Players who have not signed in are identified by a random token their client generates
+// and keeps (e.g. in localStorage), sent as `clientToken` with every request. Only its
+// hash is stored, as the session's userId, so a leaked session document does not leak it.
+const ANONYMOUS_UID_PREFIX = "anon:";
+const CLIENT_TOKEN_LENGTH = { min: 16, max: 256 };
+// Generous for a session ID, a UUID or any other client key, far below Firestore's document ID limit.
+const MAX_DOCUMENT_ID_LENGTH = 128;
+
+/**
+ * A client-supplied value about to become a document ID (a session ID, an idempotency
+ * key) must be one Firestore accepts and must not reach outside its collection.
+ * `field` names it in the error.
+ */
+export function assertValidDocumentId(id: unknown, field: string): asserts id is string {
+  if (typeof id !== "string" || id.length === 0 || id.length > MAX_DOCUMENT_ID_LENGTH) {
+    throw new HttpsError("invalid-argument", `'${field}' must be a non-empty string of at most ${MAX_DOCUMENT_ID_LENGTH} characters.`);
+  }
+  if (id.includes("/") || id === "." || id === ".." || /^__.*__$/.test(id)) {
+    throw new HttpsError("invalid-argument", `'${field}' must not contain '/', be '.' or '..', or start and end with '__'.`);
+  }
+}
+
+/**
+ * Who is calling: the signed-in user if there is one, otherwise the anonymous player
+ * behind `data.clientToken`, otherwise nobody.
+ */
+export function callerFor(auth: AuthContext | undefined, data: unknown): AuthContext | undefined {
+  if (auth) {
+    return auth;
+  }
+  const clientToken = (data as { clientToken?: unknown } | undefined)?.clientToken;
+  if (clientToken === undefined) {
+    return undefined;
+  }
+  if (typeof clientToken !== "string" || clientToken.length < CLIENT_TOKEN_LENGTH.min || clientToken.length > CLIENT_TOKEN_LENGTH.max) {
+    throw new HttpsError("invalid-argument", `'clientToken' must be a string of ${CLIENT_TOKEN_LENGTH.min} to ${CLIENT_TOKEN_LENGTH.max} characters.`);
+  }
+  return { uid: `${ANONYMOUS_UID_PREFIX}${crypto.createHash("sha256").update(clientToken).digest("hex")}` };
+}
+
+/** For operations that create something the caller will own. */
+export function requireCaller(auth?: AuthContext): AuthContext {
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Sign in, or send the 'clientToken' your client keeps, to play.");
+  }
+  return auth;
+}
+
+/** The request data with the client token taken out, for logging. */
+export function withoutClientToken(data: unknown): unknown {
+  if (typeof data !== "object" || data === null || !("clientToken" in data)) {
+    return data;
+  }
+  return { ...data, clientToken: "[redacted]" };
+}
+
+/**
+ * Only the owner, and in a shared world its members, may use a session. Sessions from
+ * before ownership was enforced have the userId 'anonymous'; no caller matches that, so
+ * they are closed to everyone.
+ */
+export function assertCanAccessSession(gameSession: GameState, auth?: AuthContext): void {
+  const isMember = !!auth && !!gameSession.multiplayer?.members.some((member) => member.uid === auth.uid);
+  if (!auth || (gameSession.userId !== auth.uid && !isMember)) {
+    throw new HttpsError("permission-denied", "You do not have permission to access this game session.");
+  }
+}
+
+/** For changes that affect everyone in a shared world, such as rewinding or deleting it. */
+export function assertIsSessionOwner(gameSession: GameState, auth?: AuthContext): void {
+  if (!auth || gameSession.userId !== auth.uid) {
+    throw new HttpsError("permission-denied", "Only the player who created this session can do that.");
+  }
+}
+
+/** For operator tools, such as usage reports: only callers with the `admin` custom claim. */
+export function assertIsAdmin(auth?: AuthContext): void {
+  if (auth?.token?.admin !== true) {
+    throw new HttpsError("permission-denied", "Only administrators can do that.");
+  }
+}
+
+/**
+ * Loads a session document and checks the caller may use it.
+ */
+export async function loadSessionForUser(sessionId: string, auth?: AuthContext) {
+  assertValidDocumentId(sessionId, "sessionId");
+  const sessionRef = db.collection(SESSIONS_COLLECTION).doc(sessionId);
+  const sessionDoc = await sessionRef.get();
+
+  if (!sessionDoc.exists) {
+    throw new HttpsError("not-found", `Game session with ID ${sessionId} not found.`);
+  }
+
+  const gameSession = sessionDoc.data() as GameState;
+  assertCanAccessSession(gameSession, auth);
+  return { sessionRef, gameSession };
+}
+
+/**
+ * For plain HTTP endpoints, which do not get auth decoded for them like callables do.
+ * A missing header means an anonymous caller; a bad token throws.
+ */
+export async function verifyBearerToken(header?: string): Promise<AuthContext | undefined> {
+  if (!header) {
+    return undefined;
+  }
+  const match = header.match(/^Bearer\s+(.+)$/);
+  if (!match) {
+    throw new Error("Authorization header must be 'Bearer <ID token>'.");
+  }
+  const decoded = await adminAuth.verifyIdToken(match[1]);
+  return { uid: decoded.uid, token: decoded };
+}
@@ -0,0 +1,81 @@
+// File: /src/sessions/sessionStatus.ts
+
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState, SessionEnding, SessionStatus } from "../types/gameState";
+import { AuthContext, assertIsSessionOwner, assertValidDocumentId } from "./sessionAccess";
+
+/**
+ * The session fields that follow from a GKN: active until the GM ends the story, then
+ * the outcome it ended with. Written with every GKN change (turns, rewinds, forks) so
+ * the session can never disagree with its world.
+ */
+export function sessionStatusFor(gkn: GameState["gkn"]): { status: SessionStatus, ending: SessionEnding | null } {
+  if (!gkn.ending) {
+    return { status: "active", ending: null };
+  }
+  return {
+    status: gkn.ending.outcome,
+    ending: { status: gkn.ending.outcome, summary: gkn.ending.summary, turnNumber: gkn.turnCount, endedAt: new Date() },
+  };
+}
+
+/** Sessions from before endings existed have no status and are still active. */
+export function isSessionActive(gameSession: GameState): boolean {
+  return (gameSession.status ?? "active") === "active";
+}
+
+/** The error for any attempt to play on after the story is over. */
+export function storyEndedError(gameSession: GameState): HttpsError {
+  return new HttpsError(
+    "failed-precondition",
+    "This story has ended. Rewind to an earlier turn or start a new story.",
+    { status: gameSession.status, ending: gameSession.ending ?? null },
+  );
+}
+
+// ==========================================================================================
+// ABANDON
+// ==========================================================================================
+/**
+ * Marks an active session as abandoned by the player. Like an ending, it can be undone by
+ * rewinding. Refused while a turn is in progress, so the turn cannot land afterwards.
+ */
+export async function abandonSessionLogic(data: { sessionId: string }, auth?: AuthContext) {
+  const { sessionId } = data;
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId'.");
+  }
+  assertValidDocumentId(sessionId, "sessionId");
+  const sessionRef = db.collection(SESSIONS_COLLECTION).doc(sessionId);
+
+  const ending = await db.runTransaction(async (tx) => {
+    const sessionDoc = await tx.get(sessionRef);
+    if (!sessionDoc.exists) {
+      throw new HttpsError("not-found", `Game session with ID ${sessionId} not found.`);
+    }
+    const gameSession = sessionDoc.data() as GameState;
+    assertIsSessionOwner(gameSession, auth);
+    if (!isSessionActive(gameSession)) {
+      throw storyEndedError(gameSession);
+    }
+    if (gameSession.turnLease && gameSession.turnLease.expiresAtMs > Date.now()) {
+      throw new HttpsError("aborted", "A turn is being processed for this session. Try again once it has finished.");
+    }
+
+    const { gkn } = gameSession;
+    const location = gkn.world.locations[gkn.player.locationId]?.name ?? gkn.player.locationId;
+    const sessionEnding: SessionEnding = {
+      status: "abandoned",
+      summary: `${gkn.player.name} walked away from the story at ${location} after ${gkn.turnCount} turn${gkn.turnCount === 1 ? "" : "s"}.`,
+      turnNumber: gkn.turnCount,
+      endedAt: new Date(),
+    };
+    tx.update(sessionRef, { status: "abandoned", ending: sessionEnding, lastModified: new Date() });
+    return sessionEnding;
+  });
+
+  logger.info(`Session ${sessionId} was abandoned at turn ${ending.turnNumber}.`);
+  return { sessionId, status: ending.status, ending };
+}
@@ -0,0 +1,76 @@
+// File: /src/sessions/sessionView.ts
+
+import * as logger from "firebase-functions/logger";
+import { db, SESSION_VIEWS_COLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { SessionView } from "../types/sessionView";
+
+// Firestore hands dates back as Timestamps, whatever the stored type says.
+const toMillis = (value: Date | FirebaseFirestore.Timestamp) => (value instanceof Date ? value.getTime() : value.toMillis());
+
+/**
+ * Projects a session onto what its player may see. Everything read from the GKN here is
+ * either the player's own state or something the story has already shown them.
+ */
+export function buildSessionView(gameSession: GameState): SessionView {
+  const { gkn, multiplayer } = gameSession;
+  const { world } = gkn;
+  const player = (multiplayer && gkn.party?.[multiplayer.members[0]?.characterId]) || gkn.player;
+  const locationName = (locationId: string) => world.locations[locationId]?.name ?? locationId;
+  const ending = gameSession.ending;
+  return {
+    sessionId: gameSession.sessionId,
+    ownerId: gameSession.userId,
+    memberIds: multiplayer ? multiplayer.members.map((member) => member.uid) : [gameSession.userId],
+    genre: world.genre,
+    initialHook: gameSession.initialHook,
+    scenario: gameSession.scenario ? { id: gameSession.scenario.id, title: gameSession.scenario.title } : null,
+    branchName: gameSession.branchName ?? null,
+    forkedFrom: gameSession.forkedFrom ?? null,
+    status: gameSession.status ?? "active",
+    ending: ending ? { status: ending.status, summary: ending.summary, turnNumber: ending.turnNumber } : null,
+    turnCount: gkn.turnCount,
+    lastModifiedMs: toMillis(gameSession.lastModified),
+    player: {
+      name: player.name,
+      locationName: locationName(player.locationId),
+      inventory: player.inventory
+        .map((id) => world.items[id])
+        .filter((item) => !!item)
+        .map((item) => ({ name: item.name, description: item.description })),
+      health: player.health ?? null,
+      conditions: player.conditions ?? [],
+      attributes: player.attributes ?? {},
+    },
+    // Members who have not played since joining have no character yet; they start beside the others.
+    shared: multiplayer
+      ? {
+        mode: multiplayer.mode,
+        party: multiplayer.members.map((member) => {
+          const character = gkn.party?.[member.characterId];
+          return { characterId: member.characterId, name: member.characterName, locationName: locationName(character?.locationId ?? player.locationId) };
+        }),
+      }
+      : null,
+    discoveredInfo: Object.values(world.discoverableInfo).filter((info) => info.isDiscovered).map((info) => info.description),
+  };
+}
+
+/**
+ * Brings a session's view in line with the session after a write: deleted with it, and
+ * otherwise rewritten only when something the player can see has changed (taking or
+ * releasing a turn lease, for instance, leaves it alone).
+ */
+export async function syncSessionView(sessionId: string, before: GameState | undefined, after: GameState | undefined): Promise<void> {
+  const viewRef = db.collection(SESSION_VIEWS_COLLECTION).doc(sessionId);
+  if (!after) {
+    await viewRef.delete();
+    logger.info(`Deleted the view of session ${sessionId}.`);
+    return;
+  }
+  const view = buildSessionView(after);
+  if (before && JSON.stringify(buildSessionView(before)) === JSON.stringify(view)) {
+    return;
+  }
+  await viewRef.set(view);
+}
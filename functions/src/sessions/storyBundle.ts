@@ -0,0 +1,458 @@
+// File: /src/sessions/storyBundle.ts
+
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION } from "../firebase";
+import { GameState, SESSION_STATUSES } from "../types/gameState";
+import { StateOperation, StateOperationName } from "../types/stateOps";
+import { TurnRecord } from "../types/turnRecord";
+import { BundledTurn, EXPORT_FORMATS, ExportFormat, STORY_BUNDLE_FORMAT_VERSION, StoryBundle } from "../types/storyBundle";
+import { leaveParty } from "../engine/party";
+import { DEFAULT_PROMPT_SET, loadPrompts } from "../prompts/promptRegistry";
+import { LlmCallUsage, UsageTotals } from "../types/usage";
+import { WorldClock, WorldEvent } from "../types/worldEvent";
+import { totalUsage } from "../llm/usageMeter";
+import { validateGkn, ValidationIssue } from "../validation/gknValidator";
+import { AuthContext, assertIsSessionOwner, loadSessionForUser, requireCaller } from "./sessionAccess";
+import { sessionStatusFor } from "./sessionStatus";
+import { loadTurns, turnRef } from "./turnHistory";
+import { renderStoryHtml, renderStoryMarkdown, storyTitle } from "./storyRender";
+
+// Firestore allows 500 writes per batch; stay comfortably below it.
+const BATCH_LIMIT = 400;
+// Keeps an import well inside what one callable request and a few batches can carry.
+const MAX_BUNDLE_TURNS = 2000;
+
+type Json = Record<string, unknown>;
+
+/**
+ * Raised when a story bundle cannot be imported as it is. `issues` lists every problem,
+ * in the same shape as the GKN validator's.
+ */
+export class BundleValidationError extends Error {
+  constructor(message: string, readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = "BundleValidationError";
+  }
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Dates come back from Firestore as Timestamps, and from older code paths as Dates. */
+function toIso(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (isObject(value) && typeof value.toDate === "function") {
+    return (value.toDate as () => Date)().toISOString();
+  }
+  return typeof value === "string" ? value : new Date(0).toISOString();
+}
+
+const isIsoDate = (value: unknown) => typeof value === "string" && !Number.isNaN(Date.parse(value));
+const isCount = (value: unknown) => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const USAGE_FIELDS = ["calls", "inputTokens", "outputTokens", "latencyMs"] as const;
+
+// Optional wherever it appears, so undefined passes.
+const isWorldClock = (value: unknown) =>
+  value === undefined || (isObject(value) && ["ticks", "lastTickTurn", "lastTickAtMs"].every((field) => typeof value[field] === "number"));
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+// The fields each kind of state operation carries. A bundled operation must be one of
+// these kinds, and an imported one keeps only its kind's fields.
+const OPERATION_FIELDS: Record<StateOperationName, readonly string[]> = {
+  movePlayer: ["locationId"],
+  addInventoryItem: ["itemId"],
+  removeInventoryItem: ["itemId", "dropAtLocationId"],
+  createItem: ["item", "locationId"],
+  moveNpc: ["npcId", "locationId"],
+  setNpcDisposition: ["npcId", "disposition"],
+  updateNpcPlan: ["npcId", "plan"],
+  discoverInfo: ["infoId"],
+  advanceCountdown: ["toStage"],
+  setExitLock: ["locationId", "direction", "isLocked"],
+  setStoryFlag: ["key", "value"],
+  adjustHealth: ["delta", "cause"],
+  addCondition: ["condition"],
+  removeCondition: ["condition"],
+  setPlayerAttribute: ["attribute", "value"],
+  endStory: ["outcome", "summary"],
+};
+
+// `item` and `plan` are the only fields that hold objects; the rest are plain values.
+const NESTED_OPERATION_FIELDS: Record<string, readonly string[]> = {
+  item: ["id", "name", "description"],
+  plan: ["description", "status"],
+};
+
+const isOperationValue = (value: unknown) => value === undefined || ["string", "number", "boolean"].includes(typeof value);
+
+function isOperation(value: unknown): boolean {
+  if (!isObject(value) || typeof value.op !== "string" || !Object.prototype.hasOwnProperty.call(OPERATION_FIELDS, value.op)) {
+    return false;
+  }
+  return OPERATION_FIELDS[value.op as StateOperationName].every((field) => {
+    const nested = NESTED_OPERATION_FIELDS[field];
+    if (!nested) {
+      return isOperationValue(value[field]);
+    }
+    const inner = value[field];
+    return inner === undefined || (isObject(inner) && nested.every((key) => typeof inner[key] === "string"));
+  });
+}
+
+const isWorldEvent = (value: unknown) =>
+  isObject(value) && (value.kind === "npc" || value.kind === "countdown") && typeof value.description === "string"
+  && ["locationId", "fromLocationId", "npcId"].every((field) => isOptionalString(value[field]));
+
+const isLlmCall = (value: unknown) =>
+  isObject(value) && typeof value.purpose === "string" && USAGE_FIELDS.slice(1).every((field) => isCount(value[field]))
+  && (value.estimated === undefined || typeof value.estimated === "boolean");
+
+// ==========================================================================================
+// BUILD
+// ==========================================================================================
+/**
+ * Packs a session and its turns into a bundle. A shared world is packed as its owner's
+ * solo story, played by their character, just as a fork of it would be.
+ */
+export function buildStoryBundle(gameSession: GameState, turns: TurnRecord[], projectId?: string): StoryBundle {
+  const ownerCharacterId = gameSession.multiplayer?.members[0]?.characterId;
+  const solo = (gkn: GameState["gkn"]) => ownerCharacterId ? leaveParty(gkn, ownerCharacterId) : gkn;
+  const { ending } = gameSession;
+
+  return {
+    formatVersion: STORY_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { sessionId: gameSession.sessionId, projectId },
+    initialHook: gameSession.initialHook,
+    promptSet: gameSession.promptSet,
+    createdWithPromptSet: gameSession.createdWithPromptSet,
+    scenario: gameSession.scenario,
+    branchName: gameSession.branchName,
+    status: gameSession.status ?? "active",
+    ending: ending ? { status: ending.status, summary: ending.summary, turnNumber: ending.turnNumber } : null,
+    worldClock: gameSession.worldClock,
+    pendingWorldEvents: gameSession.pendingWorldEvents,
+    gkn: solo(gameSession.gkn),
+    turns: turns.map((turn): BundledTurn => ({ ...turn, gknAfter: solo(turn.gknAfter), createdAt: toIso(turn.createdAt) })),
+  };
+}
+
+// ==========================================================================================
+// VALIDATE
+// ==========================================================================================
+function gknIssues(gkn: unknown, path: string): ValidationIssue[] {
+  const issues = validateGkn(gkn).issues.map((issue) => ({ path: issue.path === "gkn" ? path : `${path}.${issue.path}`, message: issue.message }));
+  if (isObject(gkn) && (gkn.party !== undefined || gkn.actingCharacterId !== undefined)) {
+    issues.push({ path: `${path}.party`, message: "must not be set; bundles hold solo stories" });
+  }
+  return issues;
+}
+
+function turnIssues(turn: unknown, index: number): ValidationIssue[] {
+  const path = `turns.${index}`;
+  if (!isObject(turn)) {
+    return [{ path, message: "must be an object" }];
+  }
+  const issues: ValidationIssue[] = [];
+  const add = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message });
+
+  if (turn.turnNumber !== index) {
+    add("turnNumber", `must be ${index}; turns run from 0 without gaps (got ${JSON.stringify(turn.turnNumber)})`);
+  }
+  for (const field of ["playerInput", "narrative"]) {
+    if (typeof turn[field] !== "string") {
+      add(field, "must be a string");
+    }
+  }
+  for (const field of ["actor", "promptSet"]) {
+    if (turn[field] !== undefined && typeof turn[field] !== "string") {
+      add(field, "must be a string");
+    }
+  }
+  if (!Array.isArray(turn.operations)) {
+    add("operations", "must be an array of state operations");
+  } else {
+    turn.operations.forEach((op, opIndex) => {
+      if (!isOperation(op)) {
+        add(`operations.${opIndex}`, `must be a state operation, one of ${Object.keys(OPERATION_FIELDS).join(", ")}, with fields of the right type`);
+      }
+    });
+  }
+  if (turn.worldEvents !== undefined && (!Array.isArray(turn.worldEvents) || !turn.worldEvents.every(isWorldEvent))) {
+    add("worldEvents", "must be an array of world events, each with a 'kind' of 'npc' or 'countdown' and a 'description'");
+  }
+  if (!isWorldClock(turn.worldClock)) {
+    add("worldClock", "must be an object with 'ticks', 'lastTickTurn' and 'lastTickAtMs'");
+  }
+  if (turn.memory !== undefined && (!isObject(turn.memory) || typeof turn.memory.summary !== "string" || typeof turn.memory.throughTurn !== "number")) {
+    add("memory", "must be an object with a 'summary' and a 'throughTurn'");
+  }
+  if (!isObject(turn.model) || typeof turn.model.provider !== "string" || typeof turn.model.name !== "string") {
+    add("model", "must be an object with a 'provider' and a 'name'");
+  }
+  if (typeof turn.latencyMs !== "number") {
+    add("latencyMs", "must be a number");
+  }
+  if (turn.llmCalls !== undefined && (!Array.isArray(turn.llmCalls) || !turn.llmCalls.every(isLlmCall))) {
+    add("llmCalls", "must be an array of model calls with a 'purpose' and whole-number token counts and latency");
+  }
+  if (turn.usage !== undefined && (!isObject(turn.usage) || !USAGE_FIELDS.every((field) => isCount((turn.usage as Json)[field])))) {
+    add("usage", `must be an object with whole-number ${USAGE_FIELDS.map((field) => `'${field}'`).join(", ")}`);
+  }
+  if (!isIsoDate(turn.createdAt)) {
+    add("createdAt", "must be an ISO date string");
+  }
+  issues.push(...gknIssues(turn.gknAfter, `${path}.gknAfter`));
+  return issues;
+}
+
+/**
+ * Checks an untrusted value against the `StoryBundle` shape: the header, the GKN against
+ * the same schema every turn is held to, and every turn with the GKN after it. Nothing is
+ * written on the strength of a bundle until this passes.
+ */
+export function validateStoryBundle(raw: unknown): StoryBundle {
+  if (!isObject(raw)) {
+    throw new BundleValidationError("The story bundle must be a JSON object.", [{ path: "bundle", message: "must be an object" }]);
+  }
+  const issues: ValidationIssue[] = [];
+  const add = (path: string, message: string) => issues.push({ path, message });
+
+  if (raw.formatVersion !== STORY_BUNDLE_FORMAT_VERSION) {
+    throw new BundleValidationError(
+      `Unsupported bundle format ${JSON.stringify(raw.formatVersion)}; this version reads format ${STORY_BUNDLE_FORMAT_VERSION}.`,
+      [{ path: "formatVersion", message: `must be ${STORY_BUNDLE_FORMAT_VERSION}` }],
+    );
+  }
+  if (!isIsoDate(raw.exportedAt)) {
+    add("exportedAt", "must be an ISO date string");
+  }
+  if (!isObject(raw.source) || typeof raw.source.sessionId !== "string") {
+    add("source", "must be an object with a 'sessionId'");
+  }
+  if (typeof raw.initialHook !== "string" || raw.initialHook.trim() === "") {
+    add("initialHook", "must be a non-empty string");
+  }
+  for (const field of ["promptSet", "createdWithPromptSet", "branchName"]) {
+    if (raw[field] !== undefined && typeof raw[field] !== "string") {
+      add(field, "must be a string");
+    }
+  }
+  if (raw.scenario !== undefined && (!isObject(raw.scenario) || typeof raw.scenario.id !== "string" || typeof raw.scenario.title !== "string")) {
+    add("scenario", "must be an object with an 'id' and a 'title'");
+  }
+  if (!(SESSION_STATUSES as readonly string[]).includes(raw.status as string)) {
+    add("status", `must be one of ${SESSION_STATUSES.map((status) => `'${status}'`).join(", ")}`);
+  }
+  if (!isWorldClock(raw.worldClock)) {
+    add("worldClock", "must be an object with 'ticks', 'lastTickTurn' and 'lastTickAtMs'");
+  }
+  if (raw.pendingWorldEvents !== undefined && (!Array.isArray(raw.pendingWorldEvents) || raw.pendingWorldEvents.some((event) => !isObject(event) || typeof event.description !== "string"))) {
+    add("pendingWorldEvents", "must be an array of world events");
+  }
+
+  issues.push(...gknIssues(raw.gkn, "gkn"));
+
+  if (!Array.isArray(raw.turns) || raw.turns.length === 0) {
+    add("turns", "must be a non-empty array, starting with turn 0");
+  } else if (raw.turns.length > MAX_BUNDLE_TURNS) {
+    add("turns", `must hold at most ${MAX_BUNDLE_TURNS} turns (got ${raw.turns.length})`);
+  } else {
+    raw.turns.forEach((turn, index) => issues.push(...turnIssues(turn, index)));
+    const lastTurn = raw.turns.length - 1;
+    if (isObject(raw.gkn) && isCount(raw.gkn.turnCount) && raw.gkn.turnCount !== lastTurn) {
+      add("gkn.turnCount", `must match the last turn, ${lastTurn} (got ${raw.gkn.turnCount})`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new BundleValidationError(`The story bundle is not valid (${issues.length} problem${issues.length === 1 ? "" : "s"}).`, issues);
+  }
+  return raw as unknown as StoryBundle;
+}
+
+// ==========================================================================================
+// EXPORT
+// ==========================================================================================
+const fileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "story";
+
+/**
+ * Exports a session as a story bundle (JSON, for importing elsewhere) or as a readable
+ * Markdown or HTML "story so far". The bundle carries the whole GKN, secrets included,
+ * so only the owner may take one; every member of a shared world may take the readable
+ * versions, which hold nothing they have not already seen.
+ */
+export async function exportSessionLogic(data: { sessionId: string, format?: ExportFormat }, auth?: AuthContext) {
+  const { sessionId, format = "bundle" } = data ?? {};
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId'.");
+  }
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new HttpsError("invalid-argument", `'format' must be one of ${EXPORT_FORMATS.join(", ")}.`);
+  }
+
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+  if (format === "bundle") {
+    assertIsSessionOwner(gameSession, auth);
+  }
+  const bundle = buildStoryBundle(gameSession, await loadTurns(sessionRef), process.env.GCLOUD_PROJECT);
+  const baseName = `${fileSlug(storyTitle(bundle))}-${sessionId}`;
+
+  logger.info(`Exported session ${sessionId} as ${format} (${bundle.turns.length} turns).`);
+  switch (format) {
+    case "markdown":
+      return { format, fileName: `${baseName}.md`, content: renderStoryMarkdown(bundle) };
+    case "html":
+      return { format, fileName: `${baseName}.html`, content: renderStoryHtml(bundle) };
+    default:
+      return { format, fileName: `${baseName}.story.json`, content: JSON.stringify(bundle, null, 2) };
+  }
+}
+
+// ==========================================================================================
+// IMPORT
+// ==========================================================================================
+/** Copies `fields` of `source`, and nothing else. */
+function pick(source: object, fields: readonly string[]): Json {
+  const from = source as Json;
+  return Object.fromEntries(fields.filter((field) => from[field] !== undefined).map((field) => [field, from[field]]));
+}
+
+function operationFromBundle(op: StateOperation): StateOperation {
+  const copy = pick(op, OPERATION_FIELDS[op.op]);
+  for (const [field, keys] of Object.entries(NESTED_OPERATION_FIELDS)) {
+    if (isObject(copy[field])) {
+      copy[field] = pick(copy[field] as Json, keys);
+    }
+  }
+  return { op: op.op, ...copy } as StateOperation;
+}
+
+const worldEventFromBundle = (event: WorldEvent) => pick(event, ["kind", "description", "locationId", "fromLocationId", "npcId"]) as unknown as WorldEvent;
+const llmCallFromBundle = (call: LlmCallUsage) => pick(call, ["purpose", "inputTokens", "outputTokens", "latencyMs", "estimated"]) as unknown as LlmCallUsage;
+const worldClockFromBundle = (clock: WorldClock): WorldClock => ({ ticks: clock.ticks, lastTickTurn: clock.lastTickTurn, lastTickAtMs: clock.lastTickAtMs });
+const usageFromBundle = (usage: UsageTotals): UsageTotals =>
+  ({ calls: usage.calls, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, latencyMs: usage.latencyMs });
+
+/**
+ * A bundled turn as a turn record, with only the fields a turn record has, down to each
+ * operation, event and model call. Anything else a hand-edited bundle carries stays behind.
+ */
+export function turnRecordFromBundle(turn: BundledTurn): TurnRecord {
+  return {
+    turnNumber: turn.turnNumber,
+    playerInput: turn.playerInput,
+    narrative: turn.narrative,
+    actor: turn.actor,
+    operations: turn.operations.map(operationFromBundle),
+    worldEvents: turn.worldEvents?.map(worldEventFromBundle),
+    gknAfter: turn.gknAfter,
+    memory: turn.memory ? { summary: turn.memory.summary, throughTurn: turn.memory.throughTurn } : undefined,
+    worldClock: turn.worldClock ? worldClockFromBundle(turn.worldClock) : undefined,
+    model: { provider: turn.model.provider, name: turn.model.name },
+    promptSet: turn.promptSet,
+    latencyMs: turn.latencyMs,
+    llmCalls: turn.llmCalls?.map(llmCallFromBundle),
+    usage: turn.usage ? usageFromBundle(turn.usage) : undefined,
+    createdAt: new Date(turn.createdAt),
+  };
+}
+
+/** The model usage of every turn in a bundle, so a story's quota goes with it. */
+export function bundleUsage(bundle: StoryBundle): UsageTotals {
+  return bundle.turns.reduce(
+    (totals, turn) => {
+      const usage = turn.usage ?? totalUsage(turn.llmCalls ?? []);
+      return {
+        calls: totals.calls + usage.calls,
+        inputTokens: totals.inputTokens + usage.inputTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        latencyMs: totals.latencyMs + usage.latencyMs,
+      };
+    },
+    { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 },
+  );
+}
+
+/**
+ * Recreates a session from a story bundle, owned by the caller. `bundle` is either the
+ * parsed object or the exported JSON text. The turns keep the model usage recorded where
+ * they were played, and the new session starts with their sum, so exporting and
+ * importing a story does not reset its per-session token quota.
+ */
+export async function importSessionLogic(data: { bundle: unknown }, auth?: AuthContext) {
+  if (data?.bundle === undefined || data.bundle === null) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'bundle'.");
+  }
+  const owner = requireCaller(auth);
+
+  let bundle: StoryBundle;
+  try {
+    bundle = validateStoryBundle(typeof data.bundle === "string" ? JSON.parse(data.bundle) : data.bundle);
+  } catch (error) {
+    if (error instanceof BundleValidationError) {
+      throw new HttpsError("invalid-argument", error.message, { issues: error.issues });
+    }
+    if (error instanceof SyntaxError) {
+      throw new HttpsError("invalid-argument", `The story bundle could not be parsed: ${error.message}`);
+    }
+    throw error;
+  }
+
+  // A bundle from another deployment may name a prompt set this one does not have.
+  const warnings: string[] = [];
+  let promptSet = bundle.promptSet ?? DEFAULT_PROMPT_SET;
+  try {
+    await loadPrompts(promptSet);
+  } catch (error) {
+    logger.warn(`Imported story names prompt set '${promptSet}', which cannot be loaded here.`, error);
+    warnings.push(`Prompt set '${promptSet}' is not available here, so the story continues on '${DEFAULT_PROMPT_SET}'.`);
+    promptSet = DEFAULT_PROMPT_SET;
+  }
+
+  const sessionRef = db.collection(SESSIONS_COLLECTION).doc();
+  const importedFrom = { sessionId: bundle.source.sessionId, projectId: bundle.source.projectId, exportedAt: bundle.exportedAt };
+  const gameSession: GameState = {
+    sessionId: sessionRef.id,
+    userId: owner.uid,
+    initialHook: bundle.initialHook,
+    scenario: bundle.scenario,
+    createdWithPromptSet: bundle.createdWithPromptSet ?? promptSet,
+    promptSet,
+    branchName: bundle.branchName,
+    importedFrom,
+    worldClock: bundle.worldClock,
+    pendingWorldEvents: bundle.pendingWorldEvents,
+    usage: bundleUsage(bundle),
+    gkn: bundle.gkn,
+    ...sessionStatusFor(bundle.gkn),
+    lastModified: new Date(),
+  };
+
+  // The session document goes last, so a half-imported story is never visible as a session.
+  for (let i = 0; i < bundle.turns.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    bundle.turns.slice(i, i + BATCH_LIMIT).forEach((turn) => {
+      batch.set(turnRef(sessionRef, turn.turnNumber), turnRecordFromBundle(turn));
+    });
+    await batch.commit();
+  }
+  await sessionRef.set(gameSession);
+
+  logger.info(`Imported session ${bundle.source.sessionId} as ${sessionRef.id} (${bundle.turns.length} turns).`);
+  return {
+    sessionId: sessionRef.id,
+    initialHook: bundle.initialHook,
+    turnNumber: bundle.gkn.turnCount,
+    status: gameSession.status,
+    ending: gameSession.ending,
+    importedFrom,
+    warnings,
+  };
+}
@@ -0,0 +1,86 @@
+// File: /src/sessions/storyRender.ts
+
+import { StoryBundle } from "../types/storyBundle";
+
+// Readable renderings of a bundled story: the opening, each action and what followed,
+// and how it ended. Only what the players saw is used, never the GKN, so these are safe
+// to hand to anyone who played.
+
+const ENDING_LABELS: Record<string, string> = {
+  dead: "The story ended in death",
+  won: "The story ended in victory",
+  abandoned: "The story was left unfinished",
+};
+
+export function storyTitle(bundle: StoryBundle): string {
+  return bundle.scenario?.title || bundle.branchName || `A ${bundle.gkn.world.genre} story`;
+}
+
+/** The turns after the opening, as who did what and what happened. */
+function storyBeats(bundle: StoryBundle) {
+  return bundle.turns
+    .filter((turn) => turn.turnNumber > 0)
+    .map((turn) => ({ actor: turn.actor || bundle.gkn.player.name, playerInput: turn.playerInput, narrative: turn.narrative }));
+}
+
+function endingLine(bundle: StoryBundle): string | undefined {
+  const { ending } = bundle;
+  return ending ? `${ENDING_LABELS[ending.status] ?? "The story ended"} after ${ending.turnNumber} turns. ${ending.summary}` : undefined;
+}
+
+export function renderStoryMarkdown(bundle: StoryBundle): string {
+  const lines = [
+    `# ${storyTitle(bundle)}`,
+    "",
+    `*${bundle.gkn.world.genre}, played as ${bundle.gkn.player.name}. Exported ${bundle.exportedAt.slice(0, 10)}.*`,
+    "",
+    bundle.initialHook,
+  ];
+  for (const beat of storyBeats(bundle)) {
+    lines.push("", `> **${beat.actor}:** ${beat.playerInput.replace(/\n+/g, " ")}`, "", beat.narrative);
+  }
+  const ending = endingLine(bundle);
+  lines.push("", "---", "", ending ? `**${ending}**` : "*To be continued.*", "");
+  return lines.join("\n");
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+const paragraphs = (text: string) => text
+  .split(/\n{2,}/)
+  .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, "<br>")}</p>`)
+  .join("\n");
+
+/** A single self-contained page, styled like the game, to open from disk or share. */
+export function renderStoryHtml(bundle: StoryBundle): string {
+  const beats = storyBeats(bundle)
+    .map((beat) => `<p class="action"><b>${escapeHtml(beat.actor)}:</b> ${escapeHtml(beat.playerInput)}</p>\n${paragraphs(beat.narrative)}`)
+    .join("\n");
+  const ending = endingLine(bundle);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(storyTitle(bundle))}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 42em; margin: 3em auto; padding: 0 1em; line-height: 1.7; color: #222; }
+  .meta { font-style: italic; color: #666; }
+  .action { font-style: italic; color: #555; border-left: 2px solid #bbb; padding-left: 1em; margin-top: 2em; }
+  .ending { font-weight: bold; border-top: 1px solid #ccc; padding-top: 1em; margin-top: 2em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(storyTitle(bundle))}</h1>
+<p class="meta">${escapeHtml(bundle.gkn.world.genre)}, played as ${escapeHtml(bundle.gkn.player.name)}. Exported ${escapeHtml(bundle.exportedAt.slice(0, 10))}.</p>
+${paragraphs(bundle.initialHook)}
+${beats}
+<p class="ending">${ending ? escapeHtml(ending) : "<i>To be continued.</i>"}</p>
+</body>
+</html>
+`;
+}
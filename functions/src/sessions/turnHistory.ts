@@ -0,0 +1,210 @@
+// File: /src/sessions/turnHistory.ts
+
+import * as crypto from "crypto";
+import * as logger from "firebase-functions/logger";
+import { FieldValue } from "firebase-admin/firestore";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION, TURN_REQUESTS_SUBCOLLECTION, TURNS_SUBCOLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { leaveParty } from "../engine/party";
+import { TurnRecord } from "../types/turnRecord";
+import { EMPTY_USAGE } from "../usage/usageLedger";
+import { AuthContext, assertIsSessionOwner, loadSessionForUser } from "./sessionAccess";
+import { sessionStatusFor } from "./sessionStatus";
+
+// Firestore allows 500 writes per batch; stay comfortably below it.
+const BATCH_LIMIT = 400;
+// A rewind holds the session's turn lease while it deletes the later turns. Should it die
+// part-way, the lease expires after this and play can go on.
+const REWIND_LEASE_MS = 60 * 1000;
+
+type DocRef = FirebaseFirestore.DocumentReference;
+
+export function turnRef(sessionRef: DocRef, turnNumber: number): DocRef {
+  return sessionRef.collection(TURNS_SUBCOLLECTION).doc(String(turnNumber));
+}
+
+export async function loadTurns(sessionRef: DocRef, upToTurn?: number): Promise<TurnRecord[]> {
+  let query = sessionRef.collection(TURNS_SUBCOLLECTION).orderBy("turnNumber");
+  if (upToTurn !== undefined) {
+    query = query.where("turnNumber", "<=", upToTurn);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs.map((doc) => doc.data() as TurnRecord);
+}
+
+/**
+ * Checks that `turnNumber` is an earlier point of this session and returns its record,
+ * with the GKN and world clock as they stood after that turn.
+ */
+async function loadSnapshot(sessionRef: DocRef, gameSession: GameState, turnNumber: unknown): Promise<TurnRecord> {
+  if (typeof turnNumber !== "number" || !Number.isInteger(turnNumber) || turnNumber < 0 || turnNumber > gameSession.gkn.turnCount) {
+    throw new HttpsError("invalid-argument", `'turnNumber' must be an integer between 0 and ${gameSession.gkn.turnCount}.`);
+  }
+  const turnDoc = await turnRef(sessionRef, turnNumber).get();
+  if (!turnDoc.exists) {
+    throw new HttpsError("failed-precondition", `No history is stored for turn ${turnNumber} of this session.`);
+  }
+  return turnDoc.data() as TurnRecord;
+}
+
+// ==========================================================================================
+// TRANSCRIPT
+// ==========================================================================================
+export async function getTranscriptLogic(data: { sessionId: string }, auth?: AuthContext) {
+  const { sessionId } = data;
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId'.");
+  }
+
+  const { sessionRef } = await loadSessionForUser(sessionId, auth);
+  const turns = await loadTurns(sessionRef);
+
+  // The GKN snapshots are spoilers, so the transcript only carries what the player saw.
+  return {
+    sessionId,
+    turns: turns.map((turn) => ({
+      turnNumber: turn.turnNumber,
+      playerInput: turn.playerInput,
+      narrative: turn.narrative,
+      actor: turn.actor,
+      model: turn.model,
+      latencyMs: turn.latencyMs,
+    })),
+  };
+}
+
+// ==========================================================================================
+// REWIND
+// ==========================================================================================
+export async function rewindSessionLogic(data: { sessionId: string, turnNumber: number }, auth?: AuthContext) {
+  const { sessionId, turnNumber } = data;
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId' and 'turnNumber'.");
+  }
+
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+  assertIsSessionOwner(gameSession, auth);
+  const { gknAfter: gkn, worldClock } = await loadSnapshot(sessionRef, gameSession, turnNumber);
+
+  // The rewind takes the turn lease, so no turn can start while it runs, and one already
+  // in flight is refused here rather than saved on top of the rewound session.
+  const leaseId = `rewind-${crypto.randomUUID()}`;
+  await db.runTransaction(async (tx) => {
+    const current = (await tx.get(sessionRef)).data() as GameState | undefined;
+    const lease = current?.turnLease;
+    if (lease && lease.expiresAtMs > Date.now()) {
+      throw new HttpsError("aborted", "A turn is being processed for this session. Rewind once it has finished.");
+    }
+    if (current?.gkn.turnCount !== gameSession.gkn.turnCount) {
+      throw new HttpsError("aborted", "The session changed while it was being rewound. Please try again.");
+    }
+    tx.update(sessionRef, { turnLease: { requestId: leaseId, expiresAtMs: Date.now() + REWIND_LEASE_MS } });
+  });
+
+  let discardedTurns: number;
+  try {
+    // Later turns are discarded. To keep them, fork the session instead. Their idempotency
+    // records go too, so a late retry of a discarded turn runs again rather than replaying.
+    const laterTurns = await sessionRef.collection(TURNS_SUBCOLLECTION).where("turnNumber", ">", turnNumber).get();
+    const laterRequests = await sessionRef.collection(TURN_REQUESTS_SUBCOLLECTION).where("turnNumber", ">", turnNumber).get();
+    const discarded = [...laterTurns.docs, ...laterRequests.docs];
+    for (let i = 0; i < discarded.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      discarded.slice(i, i + BATCH_LIMIT).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    discardedTurns = laterTurns.size;
+
+    // Rewinding past an ending (or an abandonment) brings the story back to life. Actions
+    // queued for a shared round were meant for the turn that is gone, so they go too, as do
+    // world events waiting to be narrated: they describe a world the snapshot never saw.
+    // Turns saved before clocks were recorded restart the clock.
+    await db.runTransaction(async (tx) => {
+      const current = (await tx.get(sessionRef)).data() as GameState | undefined;
+      if (current?.turnLease?.requestId !== leaseId) {
+        throw new HttpsError("aborted", "The rewind took too long and a turn was played meanwhile. Please try again.");
+      }
+      tx.update(sessionRef, {
+        gkn,
+        ...sessionStatusFor(gkn),
+        worldClock: worldClock ?? FieldValue.delete(),
+        pendingWorldEvents: [],
+        ...(gameSession.multiplayer ? { "multiplayer.pendingActions": {} } : {}),
+        lastModified: new Date(),
+        turnLease: null,
+      });
+    });
+  } catch (error) {
+    await releaseRewindLease(sessionRef, leaseId);
+    throw error;
+  }
+
+  logger.info(`Rewound session ${sessionId} to turn ${turnNumber}, discarding ${discardedTurns} turns.`);
+  return { sessionId, turnNumber, discardedTurns };
+}
+
+/** Gives back the lease of a rewind that failed, unless it has already passed to a turn. */
+async function releaseRewindLease(sessionRef: DocRef, leaseId: string): Promise<void> {
+  try {
+    await db.runTransaction(async (tx) => {
+      const current = (await tx.get(sessionRef)).data() as GameState | undefined;
+      if (current?.turnLease?.requestId === leaseId) {
+        tx.update(sessionRef, { turnLease: null });
+      }
+    });
+  } catch (error) {
+    // The lease expires on its own, so failing to release it early is not fatal.
+    logger.warn(`Could not release rewind lease ${leaseId}.`, error);
+  }
+}
+
+// ==========================================================================================
+// FORK
+// ==========================================================================================
+export async function forkSessionLogic(data: { sessionId: string, turnNumber: number, branchName?: string }, auth?: AuthContext) {
+  const { sessionId, turnNumber, branchName } = data;
+  if (!sessionId) {
+    throw new HttpsError("invalid-argument", "The function must be called with a 'sessionId' and 'turnNumber'.");
+  }
+
+  const { sessionRef, gameSession } = await loadSessionForUser(sessionId, auth);
+  assertIsSessionOwner(gameSession, auth);
+  const { gknAfter: snapshot, worldClock } = await loadSnapshot(sessionRef, gameSession, turnNumber);
+  const turns = await loadTurns(sessionRef, turnNumber);
+
+  // A fork of a shared world is the owner's own solo copy, played by their character.
+  const ownerCharacterId = gameSession.multiplayer?.members[0]?.characterId;
+  const gkn = ownerCharacterId ? leaveParty(snapshot, ownerCharacterId) : snapshot;
+
+  const branchRef = db.collection(SESSIONS_COLLECTION).doc();
+  const branch: GameState = {
+    ...gameSession,
+    sessionId: branchRef.id,
+    userId: gameSession.userId,
+    gkn,
+    ...sessionStatusFor(gkn),
+    lastModified: new Date(),
+    branchName: branchName || `${gameSession.branchName || "main"} @ turn ${turnNumber}`,
+    forkedFrom: { sessionId, turnNumber },
+    multiplayer: undefined,
+    // The branch starts where the fork point left the world, not where the parent is now,
+    // and no turn of the parent's can be in flight on it. Its usage counts only its own
+    // turns, so the parent's spend does not use up the branch's session budget.
+    worldClock,
+    pendingWorldEvents: [],
+    turnLease: undefined,
+    usage: EMPTY_USAGE,
+  };
+
+  // The branch document goes last, so a half-copied branch is never visible as a session.
+  for (let i = 0; i < turns.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    turns.slice(i, i + BATCH_LIMIT).forEach((turn) => batch.set(turnRef(branchRef, turn.turnNumber), turn));
+    await batch.commit();
+  }
+  await branchRef.set(branch);
+
+  logger.info(`Forked session ${sessionId} at turn ${turnNumber} into ${branchRef.id}.`);
+  return { sessionId: branchRef.id, branchName: branch.branchName, forkedFrom: branch.forkedFrom };
+}
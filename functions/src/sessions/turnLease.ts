@@ -0,0 +1,191 @@
+// File: /src/sessions/turnLease.ts
+
+import * as crypto from "crypto";
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION, TURN_REQUESTS_SUBCOLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { TurnRecord, TurnRequestRecord, TurnResult } from "../types/turnRecord";
+import { DailyUsage } from "../types/usage";
+import { totalUsage } from "../llm/usageMeter";
+import { assertWithinSessionBudget, assertWithinTurnQuota, getQuotaConfig } from "../usage/quotas";
+import { dailyUsageRef, sessionUsageUpdates, userUsageWrites, usageDay } from "../usage/usageLedger";
+import { AuthContext, assertCanAccessSession, assertValidDocumentId } from "./sessionAccess";
+import { afterRoundUpdates, claimTurn, TurnAction } from "./multiplayer";
+import { isSessionActive, sessionStatusFor, storyEndedError } from "./sessionStatus";
+import { turnRef } from "./turnHistory";
+
+// Long enough to cover a slow model call plus repair attempts. An abandoned lease
+// (e.g. the function instance died) simply expires after this.
+const TURN_LEASE_MS = 3 * 60 * 1000;
+
+type DocRef = FirebaseFirestore.DocumentReference;
+
+export type LeaseOutcome =
+  | { kind: "acquired"; requestId: string; sessionRef: DocRef; gameSession: GameState; actions: TurnAction[] }
+  | { kind: "replayed"; result: TurnRequestRecord["result"] }
+  | { kind: "waiting"; waitingFor: string[]; turnNumber: number };
+
+// A client's idempotency key becomes a document ID in the `turn_requests` collection.
+function requestRef(sessionRef: DocRef, requestId: string): DocRef {
+  assertValidDocumentId(requestId, "requestId");
+  return sessionRef.collection(TURN_REQUESTS_SUBCOLLECTION).doc(requestId);
+}
+
+/**
+ * Serialises turns per session. In one transaction this:
+ * - returns the stored result if `requestId` has already completed (idempotent retry),
+ * - rejects the turn if the story has ended, or the session or player is over quota
+ *   (see usage/quotas.ts),
+ * - rejects the turn if another request holds an unexpired lease,
+ * - rejects the turn if `expectedTurn` is given and the session has moved on,
+ * - in a shared world, applies its turn mode (see {@link claimTurn}), which may queue the
+ *   action and return `waiting` instead,
+ * - and otherwise takes the lease for this request, with the actions to play under it.
+ */
+export async function acquireTurnLease(
+  sessionId: string,
+  auth: AuthContext | undefined,
+  options: { playerInput: string, requestId?: string, expectedTurn?: number },
+): Promise<LeaseOutcome> {
+  assertValidDocumentId(sessionId, "sessionId");
+  // JSON clients may send null for "no key"; anything else must be a usable key.
+  if (options.requestId !== undefined && options.requestId !== null) {
+    assertValidDocumentId(options.requestId, "requestId");
+  }
+  const sessionRef = db.collection(SESSIONS_COLLECTION).doc(sessionId);
+  const requestId = options.requestId ?? crypto.randomUUID();
+
+  return await db.runTransaction(async (tx) => {
+    const sessionDoc = await tx.get(sessionRef);
+    if (!sessionDoc.exists) {
+      throw new HttpsError("not-found", `Game session with ID ${sessionId} not found.`);
+    }
+    const gameSession = sessionDoc.data() as GameState;
+    assertCanAccessSession(gameSession, auth);
+
+    if (options.requestId) {
+      const previous = await tx.get(requestRef(sessionRef, requestId));
+      if (previous.exists) {
+        logger.info(`Replaying stored result for request ${requestId}.`);
+        return { kind: "replayed", result: (previous.data() as TurnRequestRecord).result } as LeaseOutcome;
+      }
+    }
+
+    if (!isSessionActive(gameSession)) {
+      throw storyEndedError(gameSession);
+    }
+    const quotas = getQuotaConfig();
+    assertWithinSessionBudget(gameSession, quotas);
+    if (quotas.maxTurnsPerDay > 0 && auth) {
+      const today = (await tx.get(dailyUsageRef(auth.uid, usageDay()))).data() as DailyUsage | undefined;
+      assertWithinTurnQuota(today?.turns ?? 0, quotas);
+    }
+
+    const lease = gameSession.turnLease;
+    if (lease && lease.expiresAtMs > Date.now()) {
+      throw new HttpsError("aborted", lease.requestId === requestId
+        ? "This turn is still being processed. Retry shortly to get its result."
+        : "Another turn is already being processed for this session.");
+    }
+
+    const turnCount = gameSession.gkn.turnCount || 0;
+    if (options.expectedTurn !== undefined && options.expectedTurn !== turnCount) {
+      throw new HttpsError("failed-precondition", `Expected turn ${options.expectedTurn}, but the session is at turn ${turnCount}. Reload and try again.`);
+    }
+
+    const claim = claimTurn(gameSession, auth, { playerInput: options.playerInput, requestId });
+    if (claim.kind === "waiting") {
+      tx.update(sessionRef, claim.updates);
+      return { kind: "waiting", waitingFor: claim.waitingFor, turnNumber: turnCount } as LeaseOutcome;
+    }
+
+    tx.update(sessionRef, { ...claim.updates, turnLease: { requestId, expiresAtMs: Date.now() + TURN_LEASE_MS } });
+    return { kind: "acquired", requestId, sessionRef, gameSession, actions: claim.actions } as LeaseOutcome;
+  });
+}
+
+/**
+ * Writes the finished turns, their idempotency records and the new GKN, and drops the
+ * lease, along with the session status that follows from the GKN (see
+ * {@link sessionStatusFor}), the next step of a shared world's turn order, the turns'
+ * usage (see usage/usageLedger.ts) and any other `sessionUpdates`, all in one transaction. Each turn is recorded under the request that
+ * asked for it, and the returned results (one per turn) are what a retry of that request
+ * will replay. Fails with `aborted` if the lease was lost or the session was changed
+ * (e.g. rewound) while the model was thinking; nothing is written in that case.
+ */
+export async function commitLeasedTurns(
+  sessionRef: DocRef,
+  leaseRequestId: string,
+  entries: { turn: TurnRecord, requestId: string, uid?: string }[],
+  sessionUpdates: Partial<GameState> = {},
+): Promise<TurnResult[]> {
+  return await db.runTransaction(async (tx) => {
+    const sessionDoc = await tx.get(sessionRef);
+    const gameSession = sessionDoc.data() as GameState | undefined;
+    if (!gameSession || gameSession.turnLease?.requestId !== leaseRequestId) {
+      throw new HttpsError("aborted", "The turn lease was lost before the turn could be saved. Please try again.");
+    }
+    if ((gameSession.gkn.turnCount || 0) + 1 !== entries[0]?.turn.turnNumber) {
+      throw new HttpsError("aborted", "The session changed while this turn was being processed. Please try again.");
+    }
+
+    // Every player in a round ends up at its last turn, wherever their own fell in it.
+    const last = entries[entries.length - 1].turn;
+    const { status, ending } = sessionStatusFor(last.gknAfter);
+    const results = entries.map(({ turn, requestId }) => {
+      const record: TurnRequestRecord = {
+        requestId,
+        turnNumber: turn.turnNumber,
+        result: { narrative: turn.narrative, turnNumber: last.turnNumber, ...(ending ? { ending } : {}) },
+        createdAt: new Date(),
+      };
+      tx.set(turnRef(sessionRef, turn.turnNumber), turn);
+      tx.set(requestRef(sessionRef, requestId), record);
+      return record.result;
+    });
+    // Each turn's usage goes to the player who played it, and all of it to the session.
+    for (const { turn, uid } of entries) {
+      if (uid && turn.usage) {
+        userUsageWrites(uid, turn.usage, { turns: 1 }).forEach(({ ref, data }) => tx.set(ref, data, { merge: true }));
+      }
+    }
+    const usage = totalUsage(entries.flatMap(({ turn }) => turn.llmCalls ?? []));
+    tx.update(sessionRef, {
+      ...sessionUpdates,
+      ...afterRoundUpdates(gameSession),
+      ...sessionUsageUpdates(usage),
+      status,
+      ending,
+      gkn: last.gknAfter,
+      lastModified: new Date(),
+      turnLease: null,
+    });
+    return results;
+  });
+}
+
+/** {@link commitLeasedTurns} for the usual case of one turn played by the lease holder. */
+export async function commitLeasedTurn(sessionRef: DocRef, requestId: string, turn: TurnRecord, sessionUpdates: Partial<GameState> = {}): Promise<TurnResult> {
+  const [result] = await commitLeasedTurns(sessionRef, requestId, [{ turn, requestId }], sessionUpdates);
+  return result;
+}
+
+/**
+ * Gives the lease back without saving anything, e.g. after the model failed.
+ * Does nothing if the lease has already passed to someone else.
+ */
+export async function releaseTurnLease(sessionRef: DocRef, requestId: string): Promise<void> {
+  try {
+    await db.runTransaction(async (tx) => {
+      const sessionDoc = await tx.get(sessionRef);
+      const gameSession = sessionDoc.data() as GameState | undefined;
+      if (gameSession?.turnLease?.requestId === requestId) {
+        tx.update(sessionRef, { turnLease: null });
+      }
+    });
+  } catch (error) {
+    // The lease expires on its own, so failing to release it early is not fatal.
+    logger.warn(`Could not release turn lease ${requestId}.`, error);
+  }
+}
@@ -0,0 +1,58 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+// Defaults to the offline mock model and the local Firestore emulator, like the test scripts.
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "mock";
+process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as fs from "fs";
+import { createStoryFromScenarioLogic } from "./index";
+import { getLlmProvider } from "./llm";
+import { choosePromptSet, loadPrompts } from "./prompts/promptRegistry";
+import { parseScenarioText, prepareScenario, ScenarioValidationError } from "./scenarios/scenarioLoader";
+import { formatIssues } from "./validation/gknValidator";
+
+// Usage: npm run start-scenario -- <file.json|file.yaml> [--check] [--fill-gaps] [--player <name>]
+//   --check      validate (and fill, if enabled) without writing a session
+//   --fill-gaps  let the model write blank descriptive fields even if the file does not ask for it
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg, i) => !arg.startsWith("--") && args[i - 1] !== "--player");
+  const playerIndex = args.indexOf("--player");
+  const playerName = playerIndex >= 0 ? args[playerIndex + 1] : undefined;
+  const fillGaps = args.includes("--fill-gaps") ? true : undefined;
+
+  if (!file) {
+    console.error("Usage: start-scenario <file.json|file.yaml> [--check] [--fill-gaps] [--player <name>]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const text = fs.readFileSync(file, "utf8");
+
+  try {
+    if (args.includes("--check")) {
+      const prompts = await loadPrompts(choosePromptSet());
+      const prepared = await prepareScenario(parseScenarioText(text), { fillGaps, playerName, provider: getLlmProvider(), prompts });
+      console.log(`Scenario '${prepared.reference.id}' is valid.`);
+      if (prepared.filledGaps.length > 0) {
+        console.log(`The model filled ${prepared.filledGaps.length} gaps:\n  ${prepared.filledGaps.join("\n  ")}`);
+      }
+      return;
+    }
+
+    const result = await createStoryFromScenarioLogic({ scenario: text, playerName, fillGaps }, { uid: "local-scenario-cli" });
+    console.log("Session ID:", result.sessionId);
+    console.log("Initial Hook:", result.initialHook);
+  } catch (error) {
+    if (error instanceof ScenarioValidationError) {
+      console.error(`Scenario is invalid:\n${formatIssues(error.issues)}`);
+    } else {
+      console.error("Failed to start scenario:", error);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,157 @@
+// Checks the pure game logic that needs neither the model nor Firestore: prompt
+// rendering, the state engine's handling of operations and reading story bundles.
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as assert from "assert";
+import { applyStateOperations } from "./engine/stateEngine";
+import { MOCK_WORLD } from "./llm/mockProvider";
+import { interpolate } from "./prompts/promptRegistry";
+import { BundleValidationError, buildStoryBundle, turnRecordFromBundle, validateStoryBundle } from "./sessions/storyBundle";
+import { GameState } from "./types/gameState";
+import { TurnRecord } from "./types/turnRecord";
+
+// Usage: npm run test:engine (npm test runs it too).
+
+// Names a plain object lookup finds on every world record.
+const PROTOTYPE_IDS = ["constructor", "toString", "hasOwnProperty", "__proto__"];
+
+const OPENING: TurnRecord = {
+  turnNumber: 0,
+  playerInput: "",
+  narrative: "The lamps in the reading room hum.",
+  operations: [],
+  gknAfter: MOCK_WORLD,
+  model: { provider: "mock", name: "mock" },
+  latencyMs: 0,
+  createdAt: new Date(0),
+};
+
+function bundleOf(turn: TurnRecord) {
+  const session: GameState = { sessionId: "engine-test", userId: "engine-test-user", initialHook: OPENING.narrative, lastModified: new Date(0), gkn: MOCK_WORLD };
+  return buildStoryBundle(session, [turn]);
+}
+
+const cases: { name: string, run: () => void }[] = [
+  // prompt rendering
+  {
+    name: "placeholders are filled in",
+    run: () => assert.strictEqual(interpolate("Hello {{name}}.", { name: "Alex" }), "Hello Alex."),
+  },
+  {
+    name: "sections show or hide on their variable",
+    run: () => assert.strictEqual(interpolate("{{#a}}A{{/a}}{{^a}}not A{{/a}}{{#b}}B{{/b}}", { a: "yes", b: "" }), "A"),
+  },
+  {
+    name: "an unknown placeholder throws",
+    run: () => assert.throws(() => interpolate("{{missing}}", {}), /\{\{missing\}\} was not given a value/),
+  },
+  {
+    name: "a value holding template syntax is inserted as it is",
+    run: () => assert.strictEqual(interpolate("> {{playerInput}}", { playerInput: "shout {{name}}" }), "> shout {{name}}"),
+  },
+  {
+    name: "a value holding template syntax inside a section is inserted as it is",
+    run: () => assert.strictEqual(
+      interpolate("{{#exchanges}}RECENT:\n{{exchanges}}\n{{/exchanges}}SCENE: {{scene}}", { exchanges: "> shout {{name}} and {{scene}}", scene: "the archive" }),
+      "RECENT:\n> shout {{name}} and {{scene}}\nSCENE: the archive",
+    ),
+  },
+
+  // state operations
+  {
+    name: "a valid operation is applied",
+    run: () => {
+      const { gkn, rejected } = applyStateOperations(MOCK_WORLD, [{ op: "discoverInfo", infoId: "missing_pages" }]);
+      assert.deepStrictEqual(rejected, []);
+      assert.strictEqual(gkn.world.discoverableInfo.missing_pages.isDiscovered, true);
+    },
+  },
+  ...PROTOTYPE_IDS.map((id) => ({
+    name: `ids named after Object.prototype's "${id}" are rejected`,
+    run: () => {
+      const operations = [
+        { op: "movePlayer", locationId: id },
+        { op: "addInventoryItem", itemId: id },
+        { op: "removeInventoryItem", itemId: "brass_key", dropAtLocationId: id },
+        { op: "createItem", item: { id: "lamp", name: "lamp", description: "A green-shaded lamp." }, locationId: id },
+        { op: "moveNpc", npcId: id, locationId: "archive" },
+        { op: "moveNpc", npcId: "archivist", locationId: id },
+        { op: "setNpcDisposition", npcId: id, disposition: "hostile" },
+        { op: "updateNpcPlan", npcId: id, plan: { description: "Leave.", status: "active" } },
+        { op: "discoverInfo", infoId: id },
+        { op: "setExitLock", locationId: id, direction: "north", isLocked: false },
+        { op: "setExitLock", locationId: "reading_room", direction: id, isLocked: false },
+        { op: "setPlayerAttribute", attribute: id, value: 3 },
+      ];
+      const { gkn, applied, rejected } = applyStateOperations(MOCK_WORLD, operations);
+      assert.deepStrictEqual(applied, []);
+      assert.deepStrictEqual(rejected.map((rejection) => rejection.index), operations.map((_, index) => index));
+      assert.deepStrictEqual(gkn, MOCK_WORLD);
+      assert.strictEqual(Object.prototype.hasOwnProperty.call(Object, "isDiscovered"), false);
+    },
+  })),
+  {
+    name: "'__proto__' is rejected as a new item id or story flag",
+    run: () => {
+      const { gkn, rejected } = applyStateOperations(MOCK_WORLD, [
+        { op: "createItem", item: { id: "__proto__", name: "lamp", description: "A green-shaded lamp." } },
+        { op: "setStoryFlag", key: "__proto__", value: "set" },
+      ]);
+      assert.deepStrictEqual(rejected.map((rejection) => rejection.index), [0, 1]);
+      assert.deepStrictEqual(gkn, MOCK_WORLD);
+    },
+  },
+
+  // story bundles
+  {
+    name: "an imported turn keeps only the fields a turn record has, nested ones included",
+    run: () => {
+      const [turn] = bundleOf({
+        ...OPENING,
+        operations: [{ op: "createItem", item: { id: "lamp", name: "lamp", description: "A lamp.", hidden: true }, note: "extra" }],
+        worldEvents: [{ kind: "npc", description: "Marta leaves.", npcId: "archivist", secret: "extra" }],
+        memory: { summary: "So far.", throughTurn: 0, secret: "extra" },
+        worldClock: { ticks: 1, lastTickTurn: 0, lastTickAtMs: 0, secret: "extra" },
+        llmCalls: [{ purpose: "gm", inputTokens: 1, outputTokens: 2, latencyMs: 3, secret: "extra" }],
+      } as unknown as TurnRecord).turns;
+      const record = turnRecordFromBundle(turn);
+      assert.deepStrictEqual(record.operations, [{ op: "createItem", item: { id: "lamp", name: "lamp", description: "A lamp." } }]);
+      assert.deepStrictEqual(record.worldEvents, [{ kind: "npc", description: "Marta leaves.", npcId: "archivist" }]);
+      assert.deepStrictEqual(record.memory, { summary: "So far.", throughTurn: 0 });
+      assert.deepStrictEqual(record.worldClock, { ticks: 1, lastTickTurn: 0, lastTickAtMs: 0 });
+      assert.deepStrictEqual(record.llmCalls, [{ purpose: "gm", inputTokens: 1, outputTokens: 2, latencyMs: 3 }]);
+    },
+  },
+  {
+    name: "a bundle with an unknown or mistyped operation is rejected",
+    run: () => {
+      const bundle = bundleOf({ ...OPENING, operations: [{ op: "grantAdmin" }, { op: "movePlayer", locationId: { $ne: null } }] } as unknown as TurnRecord);
+      assert.throws(() => validateStoryBundle(JSON.parse(JSON.stringify(bundle))), (error: unknown) =>
+        error instanceof BundleValidationError
+        && error.issues.map((issue) => issue.path).join() === "turns.0.operations.0,turns.0.operations.1");
+    },
+  },
+];
+
+function runEngineTest() {
+  console.log("--- Starting Engine Test Run ---");
+  let failed = 0;
+  for (const { name, run } of cases) {
+    try {
+      run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`FAIL ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n--- ${failed} engine check${failed === 1 ? "" : "s"} failed ---`);
+    process.exitCode = 1;
+  } else {
+    console.log("\n--- All engine checks passed ---");
+  }
+}
+
+runEngineTest();
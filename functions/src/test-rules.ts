@@ -0,0 +1,114 @@
+// Checks firestore.rules against the Firestore emulator. Players may read the session
+// views they are members of and nothing else; every write goes through the functions.
+process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as fs from "fs";
+import * as path from "path";
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from "firebase/firestore";
+import {
+  PROMPT_TEMPLATES_COLLECTION,
+  SESSION_VIEWS_COLLECTION,
+  SESSIONS_COLLECTION,
+  TURN_REQUESTS_SUBCOLLECTION,
+  TURNS_SUBCOLLECTION,
+  USER_USAGE_COLLECTION,
+} from "./firebase";
+
+// Usage: npm test (starts the emulator, which needs Java on the PATH), or npm run test:rules
+// against a running emulator.
+
+const OWNER = "rules-owner";
+const MEMBER = "rules-member";
+const STRANGER = "rules-stranger";
+const SESSION_ID = "rules-session";
+
+async function seed(testEnv: RulesTestEnvironment) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, SESSION_VIEWS_COLLECTION, SESSION_ID), { sessionId: SESSION_ID, ownerId: OWNER, memberIds: [OWNER, MEMBER], status: "active" });
+    await setDoc(doc(db, SESSION_VIEWS_COLLECTION, "someone-elses-session"), { sessionId: "someone-elses-session", ownerId: STRANGER, memberIds: [STRANGER], status: "active" });
+    await setDoc(doc(db, SESSIONS_COLLECTION, SESSION_ID), { sessionId: SESSION_ID, userId: OWNER, gkn: { secret: "spoilers" } });
+    await setDoc(doc(db, SESSIONS_COLLECTION, SESSION_ID, TURNS_SUBCOLLECTION, "0"), { turnNumber: 0 });
+    await setDoc(doc(db, SESSIONS_COLLECTION, SESSION_ID, TURN_REQUESTS_SUBCOLLECTION, "request-1"), { requestId: "request-1", turnNumber: 1 });
+    await setDoc(doc(db, USER_USAGE_COLLECTION, OWNER), { uid: OWNER, turns: 1 });
+    await setDoc(doc(db, PROMPT_TEMPLATES_COLLECTION, "master@1"), { id: "master", version: 1 });
+  });
+}
+
+function cases(testEnv: RulesTestEnvironment): { name: string, run: () => Promise<unknown> }[] {
+  const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+  const anonymous = () => testEnv.unauthenticatedContext().firestore();
+  const views = (db: ReturnType<typeof anonymous>) => collection(db, SESSION_VIEWS_COLLECTION);
+
+  return [
+    // session_views: reads
+    { name: "the owner can read their session view", run: () => assertSucceeds(getDoc(doc(as(OWNER), SESSION_VIEWS_COLLECTION, SESSION_ID))) },
+    { name: "a member can read the session view", run: () => assertSucceeds(getDoc(doc(as(MEMBER), SESSION_VIEWS_COLLECTION, SESSION_ID))) },
+    { name: "a non-member cannot read the session view", run: () => assertFails(getDoc(doc(as(STRANGER), SESSION_VIEWS_COLLECTION, SESSION_ID))) },
+    { name: "a signed-out client cannot read the session view", run: () => assertFails(getDoc(doc(anonymous(), SESSION_VIEWS_COLLECTION, SESSION_ID))) },
+    { name: "a member can list views filtered to their uid", run: () => assertSucceeds(getDocs(query(views(as(MEMBER)), where("memberIds", "array-contains", MEMBER)))) },
+    { name: "a member cannot list views without a memberIds filter", run: () => assertFails(getDocs(views(as(MEMBER)))) },
+    { name: "a member cannot list views filtered to another uid", run: () => assertFails(getDocs(query(views(as(MEMBER)), where("memberIds", "array-contains", STRANGER)))) },
+    { name: "a signed-out client cannot list views", run: () => assertFails(getDocs(query(views(anonymous()), where("memberIds", "array-contains", MEMBER)))) },
+
+    // session_views: writes are the functions' alone
+    { name: "a member cannot create a session view", run: () => assertFails(setDoc(doc(as(MEMBER), SESSION_VIEWS_COLLECTION, "forged"), { memberIds: [MEMBER] })) },
+    { name: "the owner cannot update their session view", run: () => assertFails(updateDoc(doc(as(OWNER), SESSION_VIEWS_COLLECTION, SESSION_ID), { memberIds: [OWNER, STRANGER] })) },
+    { name: "the owner cannot delete their session view", run: () => assertFails(deleteDoc(doc(as(OWNER), SESSION_VIEWS_COLLECTION, SESSION_ID))) },
+
+    // game_sessions and everything under it: deny-all, even for the owner
+    { name: "the owner cannot read their game session", run: () => assertFails(getDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID))) },
+    { name: "the owner cannot list game sessions", run: () => assertFails(getDocs(query(collection(as(OWNER), SESSIONS_COLLECTION), where("userId", "==", OWNER)))) },
+    { name: "the owner cannot create a game session", run: () => assertFails(setDoc(doc(as(OWNER), SESSIONS_COLLECTION, "forged"), { userId: OWNER })) },
+    { name: "the owner cannot update their game session", run: () => assertFails(updateDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID), { "gkn.secret": "changed" })) },
+    { name: "the owner cannot delete their game session", run: () => assertFails(deleteDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID))) },
+    { name: "the owner cannot read a turn", run: () => assertFails(getDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID, TURNS_SUBCOLLECTION, "0"))) },
+    { name: "the owner cannot write a turn", run: () => assertFails(setDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID, TURNS_SUBCOLLECTION, "1"), { turnNumber: 1 })) },
+    { name: "the owner cannot read a turn request", run: () => assertFails(getDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID, TURN_REQUESTS_SUBCOLLECTION, "request-1"))) },
+    { name: "the owner cannot write a turn request", run: () => assertFails(setDoc(doc(as(OWNER), SESSIONS_COLLECTION, SESSION_ID, TURN_REQUESTS_SUBCOLLECTION, "request-2"), { requestId: "request-2" })) },
+
+    // Everything else the functions keep
+    { name: "a player cannot read their own usage", run: () => assertFails(getDoc(doc(as(OWNER), USER_USAGE_COLLECTION, OWNER))) },
+    { name: "a player cannot write their own usage", run: () => assertFails(setDoc(doc(as(OWNER), USER_USAGE_COLLECTION, OWNER), { turns: 0 })) },
+    { name: "a player cannot read the prompt registry", run: () => assertFails(getDoc(doc(as(OWNER), PROMPT_TEMPLATES_COLLECTION, "master@1"))) },
+  ];
+}
+
+async function runRulesTest() {
+  console.log("--- Starting Firestore Rules Test Run ---");
+  const testEnv = await initializeTestEnvironment({
+    projectId: process.env.GCLOUD_PROJECT,
+    firestore: { rules: fs.readFileSync(path.join(__dirname, "../../firestore.rules"), "utf8") },
+  });
+
+  let failed = 0;
+  try {
+    await testEnv.clearFirestore();
+    await seed(testEnv);
+    for (const { name, run } of cases(testEnv)) {
+      try {
+        await run();
+        console.log(`ok   ${name}`);
+      } catch (error) {
+        failed += 1;
+        console.error(`FAIL ${name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  } finally {
+    await testEnv.cleanup();
+  }
+
+  if (failed > 0) {
+    console.error(`\n--- ${failed} rules check${failed === 1 ? "" : "s"} failed ---`);
+    process.exitCode = 1;
+  } else {
+    console.log("\n--- All rules checks passed ---");
+  }
+}
+
+runRulesTest().catch((error) => {
+  console.error("The rules test could not run:", error);
+  process.exitCode = 1;
+});
@@ -1,8 +1,17 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+// Run fully offline: the scripted mock model and the local Firestore emulator.
+// npm test starts the emulator and runs this; npm run test:runner uses one already running.
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "mock";
+process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
 // We now import our clean, testable logic function
-import { generateStoryLogic } from "./index";
+import { createStoryFromScenarioLogic, generateStoryLogic } from "./index";
 import { HttpsError } from "firebase-functions/v2/https";
 
 async function runTest() {
@@ -19,15 +28,33 @@ async function runTest() {
   };
 
   try {
-    // Call the logic function directly. No more wrapper, no more 'as any'!
     console.log("Calling generateStoryLogic function...");
     const result = await generateStoryLogic(mockData, mockAuth);
 
-    // This will now work perfectly, as 'result' is correctly typed.
+    assert.ok(result.sessionId, "Expected a session ID.");
+    assert.ok(result.initialHook, "Expected an initial hook.");
+
     console.log("\n--- Function Succeeded! ---");
     console.log("Session ID:", result.sessionId);
     console.log("Initial Hook:", result.initialHook);
-    console.log("\nCheck your LIVE Firestore database for the new document.");
+
+    await assert.rejects(
+      generateStoryLogic({ seed: "", genre: "Sci-Fi" }, mockAuth),
+      (error: unknown) => error instanceof HttpsError && error.code === "invalid-argument",
+    );
+    console.log("Missing seed was rejected as expected.");
+
+    const scenarioText = fs.readFileSync(path.join(__dirname, "../scenarios/lighthouse.yaml"), "utf8");
+    const fromScenario = await createStoryFromScenarioLogic({ scenario: scenarioText }, mockAuth);
+    assert.ok(fromScenario.sessionId, "Expected a session ID from the scenario.");
+    assert.strictEqual(fromScenario.scenario.id, "lighthouse");
+    console.log("Scenario session created:", fromScenario.sessionId);
+
+    await assert.rejects(
+      createStoryFromScenarioLogic({ scenario: scenarioText, fillGaps: false }, mockAuth),
+      (error: unknown) => error instanceof HttpsError && error.code === "invalid-argument",
+    );
+    console.log("Scenario with unfilled gaps was rejected as expected.");
 
   } catch (error) {
     console.error("\n--- Function Failed! ---");
@@ -38,7 +65,8 @@ async function runTest() {
     } else {
         console.error("An unexpected error occurred:", error);
     }
+    process.exitCode = 1;
   }
 }
 
-runTest();
\ No newline at end of file
+runTest();
@@ -1,62 +1,190 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+// Run fully offline: the scripted mock model and the local Firestore emulator.
+// npm test starts the emulator (it needs Java on the PATH) and runs this; npm run test:turn
+// uses one already running.
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "mock";
+process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "agentic-if-poc";
+
+import * as assert from "assert";
+import * as admin from "firebase-admin";
 // Import both of our core logic functions
 import { generateStoryLogic, processPlayerTurnLogic } from "./index";
+import { forkSessionLogic, getTranscriptLogic, rewindSessionLogic } from "./sessions/turnHistory";
+import { deleteSessionLogic } from "./sessions/mySessions";
+import { joinSessionLogic, openSessionLogic } from "./sessions/multiplayer";
+import { callerFor } from "./sessions/sessionAccess";
+import { exportSessionLogic, importSessionLogic } from "./sessions/storyBundle";
+import { GameState } from "./types/gameState";
 import { HttpsError } from "firebase-functions/v2/https";
 
 // Main test function
 async function runTurnTest() {
   console.log("--- Starting Turn Test Run ---");
   let sessionId: string;
+  const storyData = {
+    seed: "A dusty old library with a secret to hide.",
+    genre: "Adventure" as const,
+    playerName: "Alex",
+  };
 
   // === STEP 1: Create a new story to test against ===
   try {
     console.log("Creating a new story for the test...");
-    const storyData = {
-      seed: "A dusty old library with a secret to hide.",
-      genre: "Adventure" as const,
-      playerName: "Alex",
-    };
     const storyResult = await generateStoryLogic(storyData, { uid: "turn-test-user" });
     sessionId = storyResult.sessionId;
     console.log(`Story created with Session ID: ${sessionId}`);
     console.log("Initial Hook:", storyResult.initialHook);
   } catch (error) {
     console.error("Failed to create story for test.", error);
+    process.exitCode = 1;
     return; // Stop the test if story creation fails
   }
 
   // === STEP 2: Process the first player turn ===
-  if (sessionId) {
-    try {
-        const turnData = {
-            sessionId: sessionId,
-            playerInput: "I look around the room, taking note of any interesting books or furniture."
-        };
-        console.log(`\n--- Processing Turn 1 ---`);
-        console.log(`Player Input: "${turnData.playerInput}"`);
-
-        // Corrected: The function now only returns the narrative.
-        const turnResult = await processPlayerTurnLogic(turnData, { uid: "turn-test-user" });
-
-        console.log("\n--- Turn Succeeded! ---");
-        console.log("\nNARRATIVE RESPONSE:");
-        console.log(turnResult.narrative);
-
-        // This line caused the error and has been removed, as updatedGameState is no longer returned.
-
-    } catch (error) {
-        console.error("\n--- Turn Processing Failed! ---");
-        if (error instanceof HttpsError) {
-            console.error("Error Code:", error.code);
-            console.error("Error Message:", error.message);
-        } else {
-            console.error("An unexpected error occurred:", error);
-        }
+  try {
+    const turnData = {
+        sessionId: sessionId,
+        playerInput: "I look around the room, taking note of any interesting books or furniture."
+    };
+    console.log(`\n--- Processing Turn 1 ---`);
+    console.log(`Player Input: "${turnData.playerInput}"`);
+
+    const turnResult = await processPlayerTurnLogic({ ...turnData, requestId: "turn-test-1", expectedTurn: 0 }, { uid: "turn-test-user" });
+
+    console.log("\n--- Turn Succeeded! ---");
+    console.log("\nNARRATIVE RESPONSE:");
+    console.log(turnResult.narrative);
+
+    const stored = (await admin.firestore().collection("game_sessions").doc(sessionId).get()).data() as GameState;
+    assert.strictEqual(stored.gkn.turnCount, 1, "Expected the turn counter to advance.");
+    // Creating the story and playing the turn were both metered, and the turn was counted for its player.
+    assert.ok((stored.usage?.calls ?? 0) >= 2, "Expected the session to record its model usage.");
+    const userUsage = (await admin.firestore().collection("user_usage").doc("turn-test-user").get()).data();
+    assert.ok(userUsage && userUsage.turns >= 1 && userUsage.sessionsCreated >= 1, "Expected the player's usage to be recorded.");
+
+    const retried = await processPlayerTurnLogic({ ...turnData, requestId: "turn-test-1", expectedTurn: 0 }, { uid: "turn-test-user" });
+    assert.strictEqual(retried.narrative, turnResult.narrative, "Expected a retry to replay the stored result.");
+    await assert.rejects(
+      processPlayerTurnLogic({ ...turnData, expectedTurn: 0 }, { uid: "turn-test-user" }),
+      (error: unknown) => error instanceof HttpsError && error.code === "failed-precondition",
+    );
+    console.log("Retry was replayed and a stale turn was rejected as expected.");
+
+    await assert.rejects(
+      processPlayerTurnLogic(turnData, { uid: "someone-else" }),
+      (error: unknown) => error instanceof HttpsError && error.code === "permission-denied",
+    );
+    console.log("Turn from another user was rejected as expected.");
+
+    for (const badId of ["game_sessions/elsewhere", "__id__", ".."]) {
+      await assert.rejects(
+        processPlayerTurnLogic({ ...turnData, sessionId: badId }, { uid: "turn-test-user" }),
+        (error: unknown) => error instanceof HttpsError && error.code === "invalid-argument",
+      );
+    }
+    console.log("Unusable session IDs were rejected as expected.");
+
+    const look = await processPlayerTurnLogic({ sessionId, playerInput: "[look]" }, { uid: "turn-test-user" });
+    assert.ok(look.ooc, "Expected [look] to be handled out of character.");
+    const debug = await processPlayerTurnLogic({ sessionId, playerInput: "[debug]" }, { uid: "turn-test-user" });
+    assert.ok(!debug.narrative.includes("\"agenda\""), "Expected [debug] to be refused outside the emulator.");
+
+    // === STEP 3: Transcript, fork and rewind ===
+    const transcript = await getTranscriptLogic({ sessionId }, { uid: "turn-test-user" });
+    assert.deepStrictEqual(transcript.turns.map((turn) => turn.turnNumber), [0, 1]);
+    assert.strictEqual(transcript.turns[1].playerInput, turnData.playerInput);
+
+    const fork = await forkSessionLogic({ sessionId, turnNumber: 0, branchName: "before looking" }, { uid: "turn-test-user" });
+    const forkTranscript = await getTranscriptLogic({ sessionId: fork.sessionId }, { uid: "turn-test-user" });
+    assert.strictEqual(forkTranscript.turns.length, 1, "Expected the fork to hold only turn 0.");
+    const forked = (await admin.firestore().collection("game_sessions").doc(fork.sessionId).get()).data() as GameState;
+    assert.strictEqual(forked.usage?.calls, 0, "Expected the fork to start without the parent's usage.");
+
+    // A turn in flight keeps the session from being rewound under it.
+    const sessionRef = admin.firestore().collection("game_sessions").doc(sessionId);
+    await sessionRef.update({ turnLease: { requestId: "turn-in-flight", expiresAtMs: Date.now() + 60 * 1000 } });
+    await assert.rejects(
+      rewindSessionLogic({ sessionId, turnNumber: 0 }, { uid: "turn-test-user" }),
+      (error: unknown) => error instanceof HttpsError && error.code === "aborted",
+    );
+    await sessionRef.update({ turnLease: null });
+
+    await rewindSessionLogic({ sessionId, turnNumber: 0 }, { uid: "turn-test-user" });
+    const rewound = (await sessionRef.get()).data() as GameState;
+    assert.strictEqual(rewound.gkn.turnCount, 0, "Expected the rewind to restore turn 0.");
+    assert.strictEqual(rewound.turnLease, null, "Expected the rewind to give its lease back.");
+    console.log("Transcript, fork and rewind behaved as expected.");
+
+    // === STEP 4: Export and import ===
+    const exported = await exportSessionLogic({ sessionId: fork.sessionId }, { uid: "turn-test-user" });
+    const imported = await importSessionLogic({ bundle: exported.content }, { uid: "importing-user" });
+    const importedSession = (await admin.firestore().collection("game_sessions").doc(imported.sessionId).get()).data() as GameState;
+    assert.strictEqual(importedSession.userId, "importing-user", "Expected the importer to own the imported story.");
+    assert.strictEqual(importedSession.importedFrom?.sessionId, fork.sessionId);
+    const importedTranscript = await getTranscriptLogic({ sessionId: imported.sessionId }, { uid: "importing-user" });
+    assert.deepStrictEqual(importedTranscript.turns, forkTranscript.turns, "Expected the imported story to read the same.");
+    await assert.rejects(
+      exportSessionLogic({ sessionId: fork.sessionId }, { uid: "someone-else" }),
+      (error: unknown) => error instanceof HttpsError && error.code === "permission-denied",
+    );
+    await assert.rejects(
+      importSessionLogic({ bundle: { ...JSON.parse(exported.content), turns: [] } }, { uid: "importing-user" }),
+      (error: unknown) => error instanceof HttpsError && error.code === "invalid-argument",
+    );
+    const story = await exportSessionLogic({ sessionId, format: "markdown" }, { uid: "turn-test-user" });
+    assert.ok(story.content.includes(storyData.playerName), "Expected the Markdown story to name the player.");
+    await deleteSessionLogic({ sessionId: imported.sessionId }, { uid: "importing-user" });
+    console.log("Export and import behaved as expected.");
+
+    // === STEP 5: A shared world's map ===
+    // The guest's turn ends in the archive; the host never went there, so their map must not show it.
+    const shared = await generateStoryLogic(storyData, { uid: "turn-test-host" });
+    const { inviteCode } = await openSessionLogic({ sessionId: shared.sessionId }, { uid: "turn-test-host" });
+    const guest = await joinSessionLogic({ inviteCode: inviteCode as string, playerName: "Sam" }, { uid: "turn-test-guest" });
+    const sharedRef = admin.firestore().collection("game_sessions").doc(shared.sessionId);
+    const sharedSession = (await sharedRef.get()).data() as GameState;
+    await sharedRef.collection("turns").doc("1").set({
+      turnNumber: 1,
+      playerInput: "I slip into the archive.",
+      narrative: "Sam slips through the iron-banded door.",
+      actor: guest.characterName,
+      gknAfter: { ...sharedSession.gkn, player: { ...sharedSession.gkn.player, locationId: "archive" }, actingCharacterId: guest.characterId },
+    });
+    const hostMap = await processPlayerTurnLogic({ sessionId: shared.sessionId, playerInput: "[map]" }, { uid: "turn-test-host" });
+    assert.ok(!hostMap.narrative.includes("Archive"), "Expected the host's map to leave out where the guest has been.");
+    const guestMap = await processPlayerTurnLogic({ sessionId: shared.sessionId, playerInput: "[map]" }, { uid: "turn-test-guest" });
+    assert.ok(guestMap.narrative.includes("Archive"), "Expected the guest's map to show where they have been.");
+    await deleteSessionLogic({ sessionId: shared.sessionId }, { uid: "turn-test-host" });
+    console.log("A shared world's map behaved as expected.");
+
+    // === STEP 6: Anonymous ownership and deletion ===
+    const anonymous = callerFor(undefined, { clientToken: "turn-test-client-token" });
+    const anonymousStory = await generateStoryLogic(storyData, anonymous);
+    await assert.rejects(
+      processPlayerTurnLogic({ sessionId: anonymousStory.sessionId, playerInput: "[look]" }, callerFor(undefined, { clientToken: "another-client-token" })),
+      (error: unknown) => error instanceof HttpsError && error.code === "permission-denied",
+    );
+    await assert.rejects(generateStoryLogic(storyData), (error: unknown) => error instanceof HttpsError && error.code === "unauthenticated");
+
+    const deleted = await deleteSessionLogic({ sessionId: fork.sessionId }, { uid: "turn-test-user" });
+    assert.strictEqual(deleted.deletedTurns, 1);
+    assert.strictEqual((await admin.firestore().collection("game_sessions").doc(fork.sessionId).get()).exists, false);
+    console.log("Anonymous ownership and deletion behaved as expected.");
+
+  } catch (error) {
+    console.error("\n--- Turn Processing Failed! ---");
+    if (error instanceof HttpsError) {
+        console.error("Error Code:", error.code);
+        console.error("Error Message:", error.message);
+    } else {
+        console.error("An unexpected error occurred:", error);
     }
+    process.exitCode = 1;
   }
 }
 
 // Execute the turn test
-runTurnTest();
\ No newline at end of file
+runTurnTest();
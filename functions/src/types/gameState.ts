@@ -1,6 +1,16 @@
 // File: /src/types/gameState.ts
 
-export type NpcDisposition = 'friendly' | 'allied' | 'neutral' | 'wary' | 'suspicious' | 'hostile' | 'deceived';
+import { ScenarioReference } from './scenario';
+import { UsageTotals } from './usage';
+import { WorldClock, WorldEvent } from './worldEvent';
+
+// The runtime lists below are the source of truth for these unions, so that
+// validation/gknValidator.ts can never drift from the types.
+export const NPC_DISPOSITIONS = ['friendly', 'allied', 'neutral', 'wary', 'suspicious', 'hostile', 'deceived'] as const;
+export type NpcDisposition = typeof NPC_DISPOSITIONS[number];
+
+export const NPC_PLAN_STATUSES = ['active', 'failed', 'succeeded'] as const;
+export type NpcPlanStatus = typeof NPC_PLAN_STATUSES[number];
 
 export interface Npc {
   id: string; 
@@ -18,11 +28,40 @@ export interface Npc {
   
   currentPlan?: {
     description: string;
-    status: 'active' | 'failed' | 'succeeded';
+    status: NpcPlanStatus;
   };
 }
 
-export type StoryGenre = 'Adventure' | 'High Fantasy' | 'Horror' | 'Gritty Realism' | 'Survival' | 'Spy Thriller' | 'Teen Drama' | 'Cyberpunk' | 'Sci-Fi';
+export const STORY_GENRES = ['Adventure', 'High Fantasy', 'Horror', 'Gritty Realism', 'Survival', 'Spy Thriller', 'Teen Drama', 'Cyberpunk', 'Sci-Fi'] as const;
+export type StoryGenre = typeof STORY_GENRES[number];
+
+// The player's attributes are rated 1 (poor) to 5 (exceptional); each genre has its own three.
+export const PLAYER_ATTRIBUTE_RANGE = { min: 1, max: 5 } as const;
+export const GENRE_ATTRIBUTES: Record<StoryGenre, readonly string[]> = {
+  'Adventure': ['might', 'agility', 'wits'],
+  'High Fantasy': ['might', 'grace', 'lore'],
+  'Horror': ['nerve', 'perception', 'stamina'],
+  'Gritty Realism': ['grit', 'streetwise', 'endurance'],
+  'Survival': ['endurance', 'fieldcraft', 'resolve'],
+  'Spy Thriller': ['guile', 'composure', 'tradecraft'],
+  'Teen Drama': ['charm', 'nerve', 'smarts'],
+  'Cyberpunk': ['chrome', 'hacking', 'cred'],
+  'Sci-Fi': ['tech', 'reflexes', 'resolve'],
+};
+
+// 'active' sessions take turns; the rest are finished. The GM can only end a story as
+// 'dead' or 'won' (see STORY_OUTCOMES); 'abandoned' is the player walking away.
+export const SESSION_STATUSES = ['active', 'dead', 'won', 'abandoned'] as const;
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+export const STORY_OUTCOMES = ['dead', 'won'] as const;
+export type StoryOutcome = typeof STORY_OUTCOMES[number];
+
+// How a shared world takes turns: one player after another, or everyone submits an
+// action and the round is resolved once all are in.
+export const TURN_MODES = ['round-robin', 'collect-all'] as const;
+export type TurnMode = typeof TURN_MODES[number];
+
 export interface Location {
     id: string;
     name: string;
@@ -37,6 +76,45 @@ export interface Item {
   description: string;
 }
 
+export interface PlayerCharacter {
+  name: string;
+  locationId: string;
+  inventory: string[]; // Array of Item IDs.
+  // Worlds from before player stats existed have none of these; the engine then
+  // refuses the operations that need them.
+  health?: { current: number; max: number };
+  conditions?: string[]; // Lasting effects, e.g. "sprained ankle", "soaked".
+  attributes?: Record<string, number>; // Keyed by the genre's GENRE_ATTRIBUTES.
+}
+
+/** A player in a shared session and the character they play. The owner is always first. */
+export interface SessionMember {
+  uid: string;
+  characterId: string;
+  characterName: string;
+  joinedAt: Date;
+}
+
+/** Session settings for a world several players share. See sessions/multiplayer.ts. */
+export interface MultiplayerSettings {
+  mode: TurnMode;
+  members: SessionMember[];
+  /** SHA-256 of the current invite code, or null while the session is closed to new players. */
+  inviteCodeHash: string | null;
+  /** Round-robin: the index in `members` of whoever acts next. */
+  nextMemberIndex: number;
+  /** Collect-all: the actions submitted for the coming round, by character ID. */
+  pendingActions: Record<string, { playerInput: string; requestId: string; submittedAt: Date }>;
+}
+
+/** How and when a session finished. Stored on the session next to `status`. */
+export interface SessionEnding {
+  status: Exclude<SessionStatus, 'active'>;
+  summary: string;
+  turnNumber: number;
+  endedAt: Date;
+}
+
 /**
  * Represents the entire session document stored in Firestore.
  * The 'gkn' is nested within this structure.
@@ -46,13 +124,52 @@ export interface GameState {
   userId: string;
   initialHook: string;
   lastModified: Date;
+
+  /** Set on sessions started from a hand-authored scenario file. */
+  scenario?: ScenarioReference;
+
+  /**
+   * The prompt set (see prompts/promptRegistry.ts) that created the session, and the one
+   * its turns run on. They start out equal; change `promptSet` to move a session onto a
+   * new set. Sessions from before prompt sets existed have neither and use the default.
+   */
+  createdWithPromptSet?: string;
+  promptSet?: string;
+
+  /** Set on sessions created by forking another session at an earlier turn. */
+  branchName?: string;
+  forkedFrom?: { sessionId: string; turnNumber: number };
+  /** Set on sessions recreated from an exported story bundle (see types/storyBundle.ts). */
+  importedFrom?: { sessionId: string; projectId?: string; exportedAt: string };
+
+  /** Held while a turn is waiting on the model, so concurrent turns cannot interleave. */
+  turnLease?: { requestId: string; expiresAtMs: number } | null;
+
+  worldClock?: WorldClock;
+  /** Events from scheduled world ticks that the next turn has not narrated yet. */
+  pendingWorldEvents?: WorldEvent[];
+
+  /** Set once the owner opens the session to other players. */
+  multiplayer?: MultiplayerSettings;
+
+  /**
+   * Model usage so far: creation, turns (including ones whose reply never validated) and
+   * scheduled world ticks. Missing on sessions from before usage was recorded.
+   */
+  usage?: UsageTotals;
+
+  /** Missing on sessions from before endings existed, which are all active. */
+  status?: SessionStatus;
+  ending?: SessionEnding | null;
   
   gkn: {
-    player: {
-      name: string;
-      locationId: string;
-      inventory: string[]; // Array of Item IDs.
-    };
+    player: PlayerCharacter;
+    /**
+     * Shared worlds only: every player character by ID. `player` is then a copy of the one
+     * named by `actingCharacterId`, so the engine and the GM only ever deal with one.
+     */
+    party?: Record<string, PlayerCharacter>;
+    actingCharacterId?: string;
     world: {
       genre: StoryGenre;
       coreConflict: string;
@@ -68,5 +185,7 @@ export interface GameState {
       storyFlags: Record<string, any>;
     };
     turnCount: number;
+    /** Set by the GM's endStory operation; the turn that sets it is the last one. */
+    ending?: { outcome: StoryOutcome; summary: string };
   }
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+// File: /src/types/prompt.ts
+
+import { StoryGenre } from './gameState';
+
+// Every template the code renders.
+export const PROMPT_NAMES = [
+  'master',
+  'gkn-schema',
+  'state-operations',
+  'story-generator',
+  'game-master',
+  'npc-agent',
+  'scenario-fill',
+  'turn-summary',
+] as const;
+export type PromptName = typeof PROMPT_NAMES[number];
+
+/**
+ * One version of a named prompt. `text` may use:
+ * - `{{variable}}` placeholders;
+ * - `{{#variable}}...{{/variable}}`, kept only when the variable is non-empty (or true),
+ *   and `{{^variable}}...{{/variable}}` for the opposite;
+ * - `{{> name}}` to include another template from the same prompt set;
+ * - `{{genreOverlay}}`, the overlay for the story's genre (or `default` when it has none).
+ */
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  text: string;
+  genreOverlays?: Partial<Record<StoryGenre | 'default', string>>;
+}
+
+/**
+ * A named selection of template versions. Sessions record the set they run on, so a
+ * set must never change once it has been used; publish a new one instead.
+ * `extends` takes every template not listed from another set.
+ */
+export interface PromptSet {
+  id: string;
+  description?: string;
+  extends?: string;
+  templates: Partial<Record<PromptName, string>>;
+}
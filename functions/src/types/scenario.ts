@@ -0,0 +1,35 @@
+// File: /src/types/scenario.ts
+
+import { GameState } from './gameState';
+
+/** Bump when the file layout changes in a way older loaders cannot read. */
+export const SCENARIO_FORMAT_VERSION = 1;
+
+/**
+ * A hand-authored world, written as JSON or YAML. `gkn` follows the `GameState["gkn"]`
+ * schema; `turnCount`, the player's inventory, `storyFlags` and other empty containers
+ * may be left out and default to empty.
+ *
+ * With `fillGaps`, descriptive fields may also be left out (descriptions, NPC motivations,
+ * speech cues and so on, plus `initialHook`) and the model writes them. Structure,
+ * IDs and references are always the author's and are never invented.
+ */
+export interface Scenario {
+  formatVersion: number;
+  id: string;
+  title: string;
+  /** The scenario's own revision, chosen by its author. */
+  version?: string;
+  author?: string;
+  initialHook?: string;
+  fillGaps?: boolean;
+  gkn: GameState['gkn'];
+}
+
+/** Recorded on sessions started from a scenario. */
+export interface ScenarioReference {
+  id: string;
+  title: string;
+  version?: string;
+  formatVersion: number;
+}
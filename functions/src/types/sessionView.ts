@@ -0,0 +1,43 @@
+// File: /src/types/sessionView.ts
+
+import { SessionEnding, SessionStatus, StoryGenre, TurnMode } from './gameState';
+
+/**
+ * The player-safe projection of a session, kept in the `session_views` collection so
+ * clients can read it directly (see firestore.rules). It only holds what the player has
+ * already seen: no NPC agendas, undiscovered info, countdown or unvisited places.
+ */
+export interface SessionView {
+  sessionId: string;
+  /** The session's userId: a Firebase uid, or the hashed client token of an anonymous player. */
+  ownerId: string;
+  /** Everyone who plays in the session: the owner, plus anyone who joined a shared world. */
+  memberIds: string[];
+  genre: StoryGenre;
+  initialHook: string;
+  scenario: { id: string; title: string } | null;
+  branchName: string | null;
+  forkedFrom: { sessionId: string; turnNumber: number } | null;
+
+  status: SessionStatus;
+  ending: Pick<SessionEnding, 'status' | 'summary' | 'turnNumber'> | null;
+  turnCount: number;
+  lastModifiedMs: number;
+
+  /** In a shared world, the owner's character; `party` lists everyone's. */
+  player: {
+    name: string;
+    locationName: string;
+    inventory: { name: string; description: string }[];
+    health: { current: number; max: number } | null;
+    conditions: string[];
+    attributes: Record<string, number>;
+  };
+  /** Set for shared worlds: how turns are taken, and where each character stands. */
+  shared: {
+    mode: TurnMode;
+    party: { characterId: string; name: string; locationName: string }[];
+  } | null;
+  /** Descriptions of the information the player has uncovered. */
+  discoveredInfo: string[];
+}
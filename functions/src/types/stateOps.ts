@@ -0,0 +1,33 @@
+// File: /src/types/stateOps.ts
+
+import { Item, NpcDisposition, NpcPlanStatus, StoryOutcome } from './gameState';
+
+/**
+ * A single change to the GKN requested by the GM. The model returns a list of these
+ * each turn instead of a rewritten world, and engine/stateEngine.ts applies them.
+ */
+export type StateOperation =
+  | { op: 'movePlayer'; locationId: string }
+  | { op: 'addInventoryItem'; itemId: string } // Picks the item up from wherever it lies.
+  | { op: 'removeInventoryItem'; itemId: string; dropAtLocationId?: string }
+  | { op: 'createItem'; item: Item; locationId?: string } // Goes to the player's inventory when no location is given.
+  | { op: 'moveNpc'; npcId: string; locationId: string }
+  | { op: 'setNpcDisposition'; npcId: string; disposition: NpcDisposition }
+  | { op: 'updateNpcPlan'; npcId: string; plan: { description: string; status: NpcPlanStatus } }
+  | { op: 'discoverInfo'; infoId: string }
+  | { op: 'advanceCountdown'; toStage?: number } // Defaults to the next stage.
+  | { op: 'setExitLock'; locationId: string; direction: string; isLocked: boolean }
+  | { op: 'setStoryFlag'; key: string; value: string | number | boolean }
+  | { op: 'adjustHealth'; delta: number; cause?: string } // Clamped to 0..max.
+  | { op: 'addCondition'; condition: string }
+  | { op: 'removeCondition'; condition: string }
+  | { op: 'setPlayerAttribute'; attribute: string; value: number }
+  | { op: 'endStory'; outcome: StoryOutcome; summary: string };
+
+export type StateOperationName = StateOperation['op'];
+
+export interface RejectedOperation {
+  index: number;
+  operation: unknown;
+  reason: string;
+}
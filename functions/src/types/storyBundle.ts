@@ -0,0 +1,43 @@
+// File: /src/types/storyBundle.ts
+
+import { GameState, SessionEnding, SessionStatus } from './gameState';
+import { TurnRecord } from './turnRecord';
+
+/** Bump when the bundle layout changes in a way older importers cannot read. */
+export const STORY_BUNDLE_FORMAT_VERSION = 1;
+
+export const EXPORT_FORMATS = ['bundle', 'markdown', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** A turn record as it travels in a bundle: dates become ISO strings. */
+export type BundledTurn = Omit<TurnRecord, 'createdAt'> & { createdAt: string };
+
+/**
+ * A whole session as one self-contained JSON document, for sharing, archiving or moving
+ * a story between projects. It holds the full GKN, spoilers and all, and every turn with
+ * the GKN after it, so an imported story can be rewound and forked like any other.
+ * Shared worlds are bundled as their owner's solo story, the same way a fork is.
+ */
+export interface StoryBundle {
+  formatVersion: number;
+  exportedAt: string;
+  /** Where the story came from. Informational only; an import never looks it up. */
+  source: { sessionId: string; projectId?: string };
+  initialHook: string;
+  /** The prompt set the story was played with (see prompts/promptRegistry.ts). */
+  promptSet?: string;
+  createdWithPromptSet?: string;
+  scenario?: GameState['scenario'];
+  branchName?: string;
+  /**
+   * How the story stood when exported. An import takes its status from `gkn` instead, so
+   * an abandoned story comes back active.
+   */
+  status: SessionStatus;
+  ending: Pick<SessionEnding, 'status' | 'summary' | 'turnNumber'> | null;
+  worldClock?: GameState['worldClock'];
+  pendingWorldEvents?: GameState['pendingWorldEvents'];
+  gkn: GameState['gkn'];
+  /** Every turn from 0 (the opening) to `gkn.turnCount`, in order. */
+  turns: BundledTurn[];
+}
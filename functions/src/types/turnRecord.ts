@@ -0,0 +1,71 @@
+// File: /src/types/turnRecord.ts
+
+import { GameState, SessionEnding } from './gameState';
+import { StateOperation } from './stateOps';
+import { LlmCallUsage, UsageTotals } from './usage';
+import { WorldClock, WorldEvent } from './worldEvent';
+
+/**
+ * One entry in a session's `turns` subcollection. The document ID is the turn number.
+ * Turn 0 is written when the session is created and holds GKN-0 and the initial hook.
+ */
+export interface TurnRecord {
+  turnNumber: number;
+  playerInput: string;
+  narrative: string;
+  /** Shared worlds only: the name of the character who acted. */
+  actor?: string;
+
+  /** Every operation applied this turn: the engine's resolved action, then the world tick, then the GM's. */
+  operations: StateOperation[];
+  /** What the world tick did this turn, seen or unseen by the player. */
+  worldEvents?: WorldEvent[];
+  /** The full GKN after this turn, so the session can be rewound or forked from here. */
+  gknAfter: GameState['gkn'];
+  /** The rolling story summary as of this turn. Kept per turn so rewinds and forks stay consistent. */
+  memory?: StoryMemory;
+  /** The session's world clock after this turn, for the same reason. Older turns have none. */
+  worldClock?: WorldClock;
+
+  model: { provider: string; name: string };
+  /** The prompt set used for this turn's model calls. */
+  promptSet?: string;
+  latencyMs: number;
+  /** Every model call the turn made, repairs included, and their sum. */
+  llmCalls?: LlmCallUsage[];
+  usage?: UsageTotals;
+  createdAt: Date;
+}
+
+/**
+ * A running summary of the story up to and including turn `throughTurn` (-1 before
+ * anything, even the opening hook, has been summarised). Later turns are given to
+ * the GM verbatim until enough of them pile up to be folded in.
+ */
+export interface StoryMemory {
+  summary: string;
+  throughTurn: number;
+}
+
+/** What a player turn returns to the client. */
+export interface TurnResult {
+  narrative: string;
+  turnNumber: number;
+  /** True when the input was an out-of-character command rather than an in-story action. */
+  ooc?: boolean;
+  /** Set when the story is over, whether it ended this turn or the player abandoned it. */
+  ending?: SessionEnding;
+  /** Shared worlds, collect-all mode: the action was queued until everyone has submitted theirs. */
+  waiting?: boolean;
+}
+
+/**
+ * One entry in a session's `turn_requests` subcollection, keyed by the client's
+ * idempotency key. A retried request gets `result` back instead of a second model call.
+ */
+export interface TurnRequestRecord {
+  requestId: string;
+  turnNumber: number;
+  result: TurnResult;
+  createdAt: Date;
+}
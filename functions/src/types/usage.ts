@@ -0,0 +1,39 @@
+// File: /src/types/usage.ts
+
+/** One call to the model, as recorded on the turn that made it. */
+export interface LlmCallUsage {
+  purpose: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** The provider reported no usage, so the token counts were estimated from the text. */
+  estimated?: boolean;
+}
+
+/** Model usage summed over any number of calls. */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Time spent waiting on the model, summed over the calls. */
+  latencyMs: number;
+}
+
+/**
+ * One player's usage across all their sessions, in the `user_usage` collection keyed by
+ * uid. Each UTC day is also kept as a {@link DailyUsage} in its `days` subcollection.
+ */
+export interface UserUsage extends UsageTotals {
+  uid: string;
+  turns: number;
+  sessionsCreated: number;
+  lastActiveMs: number;
+}
+
+/** A player's usage on one UTC day; the document ID is the date (YYYY-MM-DD). */
+export interface DailyUsage extends UsageTotals {
+  uid: string;
+  date: string;
+  turns: number;
+  sessionsCreated: number;
+}
@@ -0,0 +1,22 @@
+// File: /src/types/worldEvent.ts
+
+/**
+ * Something that happened in the world on its own during a world tick, independent of
+ * the player. The narrator only mentions events at the player's location.
+ */
+export interface WorldEvent {
+  kind: 'npc' | 'countdown';
+  description: string;
+  /** Where it happened (for a move, where the NPC ended up). Countdown events have no single location. */
+  locationId?: string;
+  /** Where an NPC started from, if it moved. */
+  fromLocationId?: string;
+  npcId?: string;
+}
+
+/** Bookkeeping for world ticks, kept on the session document outside the GKN. */
+export interface WorldClock {
+  ticks: number;
+  lastTickTurn: number;
+  lastTickAtMs: number;
+}
@@ -0,0 +1,65 @@
+// File: /src/usage/quotas.ts
+
+import { HttpsError } from "firebase-functions/v2/https";
+import { GameState } from "../types/gameState";
+import { usageDay } from "./usageLedger";
+
+/**
+ * Usage quotas, read from the environment. 0 (the default) means no limit.
+ * - QUOTA_MAX_TURNS_PER_DAY: turns one player may play per UTC day, across all their sessions.
+ * - QUOTA_MAX_TOKENS_PER_SESSION: model tokens (input and output) one session may use in all,
+ *   counting its creation, its turns and its scheduled world ticks.
+ */
+export interface QuotaConfig {
+  maxTurnsPerDay: number;
+  maxTokensPerSession: number;
+}
+
+export function getQuotaConfig(): QuotaConfig {
+  const read = (name: string) => {
+    const raw = process.env[name];
+    const value = raw ? Number(raw) : NaN;
+    return Number.isInteger(value) && value >= 0 ? value : 0;
+  };
+  return {
+    maxTurnsPerDay: read("QUOTA_MAX_TURNS_PER_DAY"),
+    maxTokensPerSession: read("QUOTA_MAX_TOKENS_PER_SESSION"),
+  };
+}
+
+/** The tokens a session has used so far. */
+export function sessionTokens(gameSession: GameState): number {
+  return (gameSession.usage?.inputTokens ?? 0) + (gameSession.usage?.outputTokens ?? 0);
+}
+
+/**
+ * Refuses a turn once the player has played `turnsToday` turns of their daily allowance.
+ * See {@link acquireTurnLease}, which reads the count and checks this before any model call.
+ */
+export function assertWithinTurnQuota(turnsToday: number, config: QuotaConfig = getQuotaConfig()): void {
+  if (config.maxTurnsPerDay > 0 && turnsToday >= config.maxTurnsPerDay) {
+    const resetsAt = new Date(`${usageDay()}T00:00:00.000Z`);
+    resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+    throw new HttpsError("resource-exhausted", `You have played your ${config.maxTurnsPerDay} turns for today. More become available at midnight UTC.`, {
+      quota: "turns-per-day",
+      limit: config.maxTurnsPerDay,
+      used: turnsToday,
+      resetsAt: resetsAt.toISOString(),
+    });
+  }
+}
+
+/**
+ * Refuses any more turns for a session that has used its token budget. The turn that
+ * crosses the limit is still played in full. Rewinding does not give tokens back.
+ */
+export function assertWithinSessionBudget(gameSession: GameState, config: QuotaConfig = getQuotaConfig()): void {
+  const used = sessionTokens(gameSession);
+  if (config.maxTokensPerSession > 0 && used >= config.maxTokensPerSession) {
+    throw new HttpsError("resource-exhausted", `This story has used its budget of ${config.maxTokensPerSession} tokens.`, {
+      quota: "tokens-per-session",
+      limit: config.maxTokensPerSession,
+      used,
+    });
+  }
+}
@@ -0,0 +1,80 @@
+// File: /src/usage/usageLedger.ts
+
+import * as logger from "firebase-functions/logger";
+import { FieldValue } from "firebase-admin/firestore";
+import { db, USAGE_DAYS_SUBCOLLECTION, USER_USAGE_COLLECTION } from "../firebase";
+import { UsageTotals } from "../types/usage";
+
+// Usage is kept three ways: on each turn record (every model call it made), on the session
+// (running totals) and per player (all-time and per UTC day). Everything is added with
+// increments, in the same write as the work it accounts for, so totals never drift from
+// the turns that were actually saved.
+
+type DocRef = FirebaseFirestore.DocumentReference;
+type DocumentData = FirebaseFirestore.DocumentData;
+
+export const EMPTY_USAGE: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+
+/** The UTC day a piece of usage counts towards, as YYYY-MM-DD. */
+export const usageDay = (atMs: number = Date.now()) => new Date(atMs).toISOString().slice(0, 10);
+
+export const userUsageRef = (uid: string) => db.collection(USER_USAGE_COLLECTION).doc(uid);
+export const dailyUsageRef = (uid: string, day: string) => userUsageRef(uid).collection(USAGE_DAYS_SUBCOLLECTION).doc(day);
+
+const increments = (usage: UsageTotals): DocumentData => ({
+  calls: FieldValue.increment(usage.calls),
+  inputTokens: FieldValue.increment(usage.inputTokens),
+  outputTokens: FieldValue.increment(usage.outputTokens),
+  latencyMs: FieldValue.increment(usage.latencyMs),
+});
+
+/** Field updates that add `usage` to a session's running totals, for an update() on the session. */
+export function sessionUsageUpdates(usage: UsageTotals): DocumentData {
+  return Object.fromEntries(Object.entries(increments(usage)).map(([field, value]) => [`usage.${field}`, value]));
+}
+
+/**
+ * The writes that add some work to a player's all-time and daily totals. Each one is
+ * meant for `set(ref, data, { merge: true })` in the batch or transaction saving the work.
+ */
+export function userUsageWrites(
+  uid: string,
+  usage: UsageTotals,
+  counts: { turns?: number, sessionsCreated?: number } = {},
+  atMs: number = Date.now(),
+): { ref: DocRef, data: DocumentData }[] {
+  const added = {
+    ...increments(usage),
+    turns: FieldValue.increment(counts.turns ?? 0),
+    sessionsCreated: FieldValue.increment(counts.sessionsCreated ?? 0),
+  };
+  const day = usageDay(atMs);
+  return [
+    { ref: userUsageRef(uid), data: { uid, ...added, lastActiveMs: atMs } },
+    { ref: dailyUsageRef(uid, day), data: { uid, date: day, ...added } },
+  ];
+}
+
+/**
+ * Records usage that no turn will carry, such as the model calls of a turn whose reply
+ * never validated, or of a story that could not be created. Those tokens were still
+ * spent. Failures are logged, not thrown, since the caller is already on its way out
+ * with an error of its own.
+ */
+export async function recordUnsavedUsage(sessionRef: DocRef | undefined, uid: string | undefined, usage: UsageTotals): Promise<void> {
+  if (usage.calls === 0) {
+    return;
+  }
+  try {
+    const batch = db.batch();
+    if (sessionRef) {
+      batch.update(sessionRef, sessionUsageUpdates(usage));
+    }
+    if (uid) {
+      userUsageWrites(uid, usage).forEach(({ ref, data }) => batch.set(ref, data, { merge: true }));
+    }
+    await batch.commit();
+  } catch (error) {
+    logger.error(`Could not record usage${sessionRef ? ` for session ${sessionRef.id}` : ""}.`, error);
+  }
+}
@@ -0,0 +1,103 @@
+// File: /src/usage/usageReport.ts
+
+import { HttpsError } from "firebase-functions/v2/https";
+import { db, SESSIONS_COLLECTION, TURNS_SUBCOLLECTION, USAGE_DAYS_SUBCOLLECTION } from "../firebase";
+import { GameState } from "../types/gameState";
+import { TurnRecord } from "../types/turnRecord";
+import { DailyUsage, UsageTotals, UserUsage } from "../types/usage";
+import { AuthContext, assertIsAdmin, assertValidDocumentId } from "../sessions/sessionAccess";
+import { getQuotaConfig } from "./quotas";
+import { EMPTY_USAGE, usageDay, userUsageRef } from "./usageLedger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 7;
+const MAX_REPORT_DAYS = 90;
+const TOP_USERS = 20;
+
+type DayTotals = UsageTotals & { turns: number, sessionsCreated: number };
+
+const emptyDayTotals = (): DayTotals => ({ turns: 0, sessionsCreated: 0, ...EMPTY_USAGE });
+
+function addDay(into: DayTotals, day: DailyUsage): void {
+  into.turns += day.turns ?? 0;
+  into.sessionsCreated += day.sessionsCreated ?? 0;
+  into.calls += day.calls ?? 0;
+  into.inputTokens += day.inputTokens ?? 0;
+  into.outputTokens += day.outputTokens ?? 0;
+  into.latencyMs += day.latencyMs ?? 0;
+}
+
+/**
+ * Usage for operators, over the last `days` UTC days (today included):
+ * - with a `sessionId`: the session's totals and every turn's model calls,
+ * - with a `uid`: the player's all-time totals and their day-by-day usage,
+ * - with neither: everyone's totals and the heaviest players. This reads every player's
+ *   daily record in the range, so keep `days` short on a busy deployment.
+ */
+export async function getUsageReportLogic(data: { uid?: string, sessionId?: string, days?: number }, auth?: AuthContext) {
+  assertIsAdmin(auth);
+  const { uid, sessionId, days = DEFAULT_REPORT_DAYS } = data ?? {};
+  if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    throw new HttpsError("invalid-argument", `'days' must be an integer between 1 and ${MAX_REPORT_DAYS}.`);
+  }
+  const since = usageDay(Date.now() - (days - 1) * DAY_MS);
+  const quotas = getQuotaConfig();
+
+  if (sessionId) {
+    assertValidDocumentId(sessionId, "sessionId");
+    const sessionDoc = await db.collection(SESSIONS_COLLECTION).doc(sessionId).get();
+    if (!sessionDoc.exists) {
+      throw new HttpsError("not-found", `Game session with ID ${sessionId} not found.`);
+    }
+    const gameSession = sessionDoc.data() as GameState;
+    const turns = await sessionDoc.ref.collection(TURNS_SUBCOLLECTION)
+      .orderBy("turnNumber")
+      .select("turnNumber", "actor", "model", "latencyMs", "usage", "llmCalls")
+      .get();
+    return {
+      sessionId,
+      ownerId: gameSession.userId,
+      usage: gameSession.usage ?? EMPTY_USAGE,
+      quotas,
+      turns: turns.docs.map((doc) => {
+        const turn = doc.data() as Pick<TurnRecord, "turnNumber" | "actor" | "model" | "latencyMs" | "usage" | "llmCalls">;
+        return { ...turn, usage: turn.usage ?? null, llmCalls: turn.llmCalls ?? [] };
+      }),
+    };
+  }
+
+  if (uid) {
+    const [user, daily] = await Promise.all([
+      userUsageRef(uid).get(),
+      userUsageRef(uid).collection(USAGE_DAYS_SUBCOLLECTION).where("date", ">=", since).orderBy("date", "desc").get(),
+    ]);
+    return {
+      uid,
+      since,
+      totals: (user.data() as UserUsage | undefined) ?? null,
+      quotas,
+      days: daily.docs.map((doc) => doc.data() as DailyUsage),
+    };
+  }
+
+  const daily = await db.collectionGroup(USAGE_DAYS_SUBCOLLECTION).where("date", ">=", since).get();
+  const totals = emptyDayTotals();
+  const byUser = new Map<string, DayTotals>();
+  for (const doc of daily.docs) {
+    const day = doc.data() as DailyUsage;
+    const user = byUser.get(day.uid) ?? emptyDayTotals();
+    addDay(user, day);
+    addDay(totals, day);
+    byUser.set(day.uid, user);
+  }
+  return {
+    since,
+    totals,
+    activeUsers: byUser.size,
+    quotas,
+    topUsers: [...byUser.entries()]
+      .map(([userId, usage]) => ({ uid: userId, ...usage }))
+      .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+      .slice(0, TOP_USERS),
+  };
+}
@@ -0,0 +1,348 @@
+// File: /src/validation/gknValidator.ts
+
+import { applyStateOperations } from "../engine/stateEngine";
+import { findConflictingOperations, ResolvedAction } from "../engine/actionResolver";
+import { GameState, NPC_DISPOSITIONS, NPC_PLAN_STATUSES, PLAYER_ATTRIBUTE_RANGE, STORY_GENRES, STORY_OUTCOMES } from "../types/gameState";
+
+/**
+ * A single schema or referential-integrity violation.
+ * `path` uses dotted notation rooted at the GKN, e.g. `world.npcs.archivist.disposition`.
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects issues while walking a value. Every check reports and carries on,
+ * so one pass yields the full list of violations to send back to the model.
+ */
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  string(obj: Json, key: string, path: string): void {
+    if (typeof obj[key] !== "string") {
+      this.add(`${path}.${key}`, "must be a string");
+    }
+  }
+
+  stringArray(obj: Json, key: string, path: string): void {
+    const value = obj[key];
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+      this.add(`${path}.${key}`, "must be an array of strings");
+    }
+  }
+
+  oneOf(obj: Json, key: string, allowed: readonly string[], path: string): void {
+    if (!allowed.includes(obj[key] as string)) {
+      this.add(`${path}.${key}`, `must be one of ${allowed.map((v) => `'${v}'`).join(", ")} (got ${JSON.stringify(obj[key])})`);
+    }
+  }
+
+  record(obj: Json, key: string, path: string): Json {
+    const value = obj[key];
+    if (!isObject(value)) {
+      this.add(`${path}.${key}`, "must be an object");
+      return {};
+    }
+    return value;
+  }
+}
+
+function validateLocations(collector: IssueCollector, locations: Json, itemIds: Set<string>): void {
+  for (const [locationId, location] of Object.entries(locations)) {
+    const path = `world.locations.${locationId}`;
+    if (!isObject(location)) {
+      collector.add(path, "must be an object");
+      continue;
+    }
+    if (location.id !== locationId) {
+      collector.add(`${path}.id`, `must match its key '${locationId}'`);
+    }
+    collector.string(location, "name", path);
+    collector.string(location, "description", path);
+
+    const exits = collector.record(location, "exits", path);
+    for (const [direction, exit] of Object.entries(exits)) {
+      const exitPath = `${path}.exits.${direction}`;
+      if (!isObject(exit)) {
+        collector.add(exitPath, "must be an object");
+        continue;
+      }
+      collector.string(exit, "description", exitPath);
+      if (typeof exit.toLocationId !== "string" || !Object.prototype.hasOwnProperty.call(locations, exit.toLocationId)) {
+        collector.add(`${exitPath}.toLocationId`, `must reference an existing location (got ${JSON.stringify(exit.toLocationId)})`);
+      }
+      if (exit.isLocked !== undefined && typeof exit.isLocked !== "boolean") {
+        collector.add(`${exitPath}.isLocked`, "must be a boolean when present");
+      }
+      if (exit.keyId !== undefined && (typeof exit.keyId !== "string" || !itemIds.has(exit.keyId))) {
+        collector.add(`${exitPath}.keyId`, `must reference an existing item (got ${JSON.stringify(exit.keyId)})`);
+      }
+    }
+
+    if (!Array.isArray(location.items)) {
+      collector.add(`${path}.items`, "must be an array of item IDs");
+    } else {
+      location.items.forEach((itemId, index) => {
+        if (typeof itemId !== "string" || !itemIds.has(itemId)) {
+          collector.add(`${path}.items[${index}]`, `must reference an existing item (got ${JSON.stringify(itemId)})`);
+        }
+      });
+    }
+  }
+}
+
+function validateNpcs(collector: IssueCollector, npcs: Json, locationIds: Set<string>): void {
+  for (const [npcId, npc] of Object.entries(npcs)) {
+    const path = `world.npcs.${npcId}`;
+    if (!isObject(npc)) {
+      collector.add(path, "must be an object");
+      continue;
+    }
+    if (npc.id !== npcId) {
+      collector.add(`${path}.id`, `must match its key '${npcId}'`);
+    }
+    collector.string(npc, "name", path);
+    if (typeof npc.isKeyNpc !== "boolean") {
+      collector.add(`${path}.isKeyNpc`, "must be a boolean");
+    }
+    if (typeof npc.locationId !== "string" || !locationIds.has(npc.locationId)) {
+      collector.add(`${path}.locationId`, `must reference an existing location (got ${JSON.stringify(npc.locationId)})`);
+    }
+    collector.stringArray(npc, "motivations", path);
+    collector.stringArray(npc, "personalityTags", path);
+    collector.string(npc, "speechStyleCues", path);
+    collector.string(npc, "agenda", path);
+    collector.oneOf(npc, "disposition", NPC_DISPOSITIONS, path);
+    collector.record(npc, "knowledge", path);
+
+    if (npc.currentPlan !== undefined) {
+      if (!isObject(npc.currentPlan)) {
+        collector.add(`${path}.currentPlan`, "must be an object when present");
+      } else {
+        collector.string(npc.currentPlan, "description", `${path}.currentPlan`);
+        collector.oneOf(npc.currentPlan, "status", NPC_PLAN_STATUSES, `${path}.currentPlan`);
+      }
+    }
+  }
+}
+
+const isInteger = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value);
+
+// A player character: the player, or a member of a shared world's party. Health,
+// conditions and attributes are optional, but must be well formed when present.
+function validateCharacter(collector: IssueCollector, character: Json, path: string, locationIds: Set<string>, itemIds: Set<string>): void {
+  collector.string(character, "name", path);
+  if (typeof character.locationId !== "string" || !locationIds.has(character.locationId)) {
+    collector.add(`${path}.locationId`, `must reference an existing location (got ${JSON.stringify(character.locationId)})`);
+  }
+  if (!Array.isArray(character.inventory)) {
+    collector.add(`${path}.inventory`, "must be an array of item IDs");
+  } else {
+    character.inventory.forEach((itemId, index) => {
+      if (typeof itemId !== "string" || !itemIds.has(itemId)) {
+        collector.add(`${path}.inventory[${index}]`, `must reference an existing item (got ${JSON.stringify(itemId)})`);
+      }
+    });
+  }
+
+  if (character.health !== undefined) {
+    const health = collector.record(character, "health", path);
+    if (!isInteger(health.max) || health.max < 1) {
+      collector.add(`${path}.health.max`, `must be a positive integer (got ${JSON.stringify(health.max)})`);
+    } else if (!isInteger(health.current) || health.current < 0 || health.current > health.max) {
+      collector.add(`${path}.health.current`, `must be an integer between 0 and ${health.max} (got ${JSON.stringify(health.current)})`);
+    }
+  }
+  if (character.conditions !== undefined) {
+    collector.stringArray(character, "conditions", path);
+  }
+  if (character.attributes !== undefined) {
+    const { min, max } = PLAYER_ATTRIBUTE_RANGE;
+    for (const [name, value] of Object.entries(collector.record(character, "attributes", path))) {
+      if (!isInteger(value) || value < min || value > max) {
+        collector.add(`${path}.attributes.${name}`, `must be an integer from ${min} to ${max} (got ${JSON.stringify(value)})`);
+      }
+    }
+  }
+}
+
+// In a shared world, `player` must be the acting party member and no item may be in two
+// characters' hands at once.
+function validateParty(collector: IssueCollector, gkn: Json, locationIds: Set<string>, itemIds: Set<string>): void {
+  const party = collector.record(gkn, "party", "gkn");
+  if (typeof gkn.actingCharacterId !== "string" || !party[gkn.actingCharacterId]) {
+    collector.add("actingCharacterId", `must name a member of the party (got ${JSON.stringify(gkn.actingCharacterId)})`);
+  }
+  const holders = new Map<string, string>();
+  for (const [characterId, character] of Object.entries(party)) {
+    const path = `party.${characterId}`;
+    if (!isObject(character)) {
+      collector.add(path, "must be an object");
+      continue;
+    }
+    validateCharacter(collector, character, path, locationIds, itemIds);
+    // The acting character's current state is `player`; its party entry is written back after the turn.
+    const inventory = characterId === gkn.actingCharacterId && isObject(gkn.player) ? gkn.player.inventory : character.inventory;
+    for (const itemId of Array.isArray(inventory) ? inventory : []) {
+      const holder = holders.get(itemId);
+      if (holder) {
+        collector.add(`${path}.inventory`, `item '${itemId}' is also carried by ${holder}`);
+      }
+      holders.set(itemId, characterId);
+    }
+  }
+}
+
+/**
+ * Checks an untrusted value against the `GameState["gkn"]` shape, including
+ * references between locations, items and NPCs. Enum values come straight from
+ * types/gameState.ts, so this stays in step with the type definitions.
+ */
+export function validateGkn(gkn: unknown): ValidationResult {
+  const collector = new IssueCollector();
+
+  if (!isObject(gkn)) {
+    collector.add("gkn", "must be an object");
+    return { valid: false, issues: collector.issues };
+  }
+
+  const world = collector.record(gkn, "world", "gkn");
+  const locations = collector.record(world, "locations", "world");
+  const items = collector.record(world, "items", "world");
+  const npcs = collector.record(world, "npcs", "world");
+  const locationIds = new Set(Object.keys(locations));
+  const itemIds = new Set(Object.keys(items));
+
+  collector.oneOf(world, "genre", STORY_GENRES, "world");
+  collector.string(world, "coreConflict", "world");
+
+  for (const [itemId, item] of Object.entries(items)) {
+    const path = `world.items.${itemId}`;
+    if (!isObject(item)) {
+      collector.add(path, "must be an object");
+      continue;
+    }
+    if (item.id !== itemId) {
+      collector.add(`${path}.id`, `must match its key '${itemId}'`);
+    }
+    collector.string(item, "name", path);
+    collector.string(item, "description", path);
+  }
+
+  validateLocations(collector, locations, itemIds);
+  validateNpcs(collector, npcs, locationIds);
+
+  const countdown = collector.record(world, "fluidCountdown", "world");
+  collector.string(countdown, "description", "world.fluidCountdown");
+  collector.stringArray(countdown, "stages", "world.fluidCountdown");
+  const stageCount = Array.isArray(countdown.stages) ? countdown.stages.length : 0;
+  const currentStage = countdown.currentStage;
+  if (typeof currentStage !== "number" || !Number.isInteger(currentStage) || currentStage < 0 || currentStage >= Math.max(stageCount, 1)) {
+    collector.add("world.fluidCountdown.currentStage", `must be an integer between 0 and ${Math.max(stageCount - 1, 0)} (got ${JSON.stringify(currentStage)})`);
+  }
+
+  const discoverableInfo = collector.record(world, "discoverableInfo", "world");
+  for (const [infoId, info] of Object.entries(discoverableInfo)) {
+    const path = `world.discoverableInfo.${infoId}`;
+    if (!isObject(info)) {
+      collector.add(path, "must be an object");
+      continue;
+    }
+    collector.string(info, "description", path);
+    if (typeof info.isDiscovered !== "boolean") {
+      collector.add(`${path}.isDiscovered`, "must be a boolean");
+    }
+  }
+
+  collector.record(world, "storyFlags", "world");
+
+  validateCharacter(collector, collector.record(gkn, "player", "gkn"), "player", locationIds, itemIds);
+  if (gkn.party !== undefined) {
+    validateParty(collector, gkn, locationIds, itemIds);
+  }
+
+  if (gkn.ending !== undefined) {
+    const ending = collector.record(gkn, "ending", "gkn");
+    collector.oneOf(ending, "outcome", STORY_OUTCOMES, "ending");
+    collector.string(ending, "summary", "ending");
+  }
+
+  if (typeof gkn.turnCount !== "number" || !Number.isInteger(gkn.turnCount) || gkn.turnCount < 0) {
+    collector.add("turnCount", "must be a non-negative integer");
+  }
+
+  return { valid: collector.issues.length === 0, issues: collector.issues };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
+
+/** Validates the world-builder reply: `{ gkn, initialHook }`. */
+export function validateStoryResponse(value: unknown): ValidationIssue[] {
+  if (!isObject(value)) {
+    return [{ path: "(root)", message: "must be a JSON object" }];
+  }
+  const issues: ValidationIssue[] = [];
+  if (typeof value.initialHook !== "string" || !value.initialHook.trim()) {
+    issues.push({ path: "initialHook", message: "must be a non-empty string" });
+  }
+  if (value.gkn === undefined) {
+    issues.push({ path: "gkn", message: "is missing" });
+  } else {
+    issues.push(...validateGkn(value.gkn).issues.map((issue) => ({ ...issue, path: `gkn.${issue.path}` })));
+  }
+  return issues;
+}
+
+/**
+ * Validates the GM reply, `{ narrative, operations }`, by dry-running the operations
+ * against the current GKN. Any operation the engine would reject is reported, as is
+ * a resulting world that no longer passes {@link validateGkn}. When the engine has
+ * already resolved the player's action, operations that contradict it are reported too.
+ */
+export function validateTurnResponse(value: unknown, currentGkn: GameState["gkn"], resolvedAction?: ResolvedAction): ValidationIssue[] {
+  if (!isObject(value)) {
+    return [{ path: "(root)", message: "must be a JSON object" }];
+  }
+  const issues: ValidationIssue[] = [];
+  if (typeof value.narrative !== "string" || !value.narrative.trim()) {
+    issues.push({ path: "narrative", message: "must be a non-empty string" });
+  }
+  if (!Array.isArray(value.operations)) {
+    issues.push({ path: "operations", message: "must be an array (use [] when nothing changes)" });
+    return issues;
+  }
+
+  if (resolvedAction) {
+    issues.push(...findConflictingOperations(resolvedAction, value.operations).map((conflict) => ({ path: `operations[${conflict.index}]`, message: conflict.reason })));
+  }
+
+  const result = applyStateOperations(currentGkn, value.operations);
+  issues.push(...result.rejected.map((rejection) => ({ path: `operations[${rejection.index}]`, message: rejection.reason })));
+  if (result.rejected.length === 0) {
+    issues.push(...validateGkn(result.gkn).issues.map((issue) => ({ ...issue, path: `(resulting gkn).${issue.path}` })));
+    // Health reaching 0 is death; the GM must say so rather than leave the player at 0.
+    if (result.gkn.player.health?.current === 0 && !result.gkn.ending) {
+      issues.push({ path: "operations", message: "the player's health reaches 0; end the story with { op: 'endStory', outcome: 'dead' } or keep them alive" });
+    }
+  }
+  return issues;
+}